@@ -0,0 +1,197 @@
+// src/auth.ts
+
+import axios from "axios";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import {
+  EnvironmentProfile,
+  getResource,
+  getScope,
+  resolveClientSecret,
+  resolveSecretRef,
+} from "./profiles";
+
+/**
+ * Hands out access tokens for one environment, fetching a new one only when the cached token is close to expiry.
+ */
+export interface TokenProvider {
+  /**
+   * Returns a valid access token.
+   *
+   * @param forceRefresh - Discard the cached token first (e.g., after the server answered 401).
+   */
+  getToken(forceRefresh?: boolean): Promise<string>;
+}
+
+/**
+ * An access token together with the time it stops being valid.
+ */
+export interface AccessToken {
+  token: string;
+  /** Expiry as milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/** Tokens are refreshed this long before they expire, so a request never goes out with a token about to lapse. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function base64Url(input: Buffer | string): string {
+  return (typeof input === "string" ? Buffer.from(input, "utf8") : input)
+    .toString("base64")
+    .replace(/=+$/, "")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/**
+ * Builds the signed JWT client assertion used for certificate-based client credentials.
+ *
+ * @param {EnvironmentProfile} profile - The profile holding the client ID and certificate paths.
+ * @param {string} tokenUrl - The token endpoint; used as the assertion audience.
+ * @returns {string} The compact-serialized JWT.
+ * @throws Will throw an error if the certificate or private key cannot be read.
+ */
+export function createClientAssertion(
+  profile: EnvironmentProfile,
+  tokenUrl: string
+): string {
+  if (!profile.certificatePath) {
+    throw new Error(`Profile "${profile.name}" has no certificatePath.`);
+  }
+
+  const certificate = new crypto.X509Certificate(
+    fs.readFileSync(profile.certificatePath)
+  );
+  const privateKey = crypto.createPrivateKey({
+    key: fs.readFileSync(profile.privateKeyPath ?? profile.certificatePath),
+    passphrase: profile.privateKeyPassphraseRef
+      ? resolveSecretRef(profile, profile.privateKeyPassphraseRef)
+      : undefined,
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const header = {
+    alg: "RS256",
+    typ: "JWT",
+    x5t: base64Url(crypto.createHash("sha1").update(certificate.raw).digest()),
+  };
+  const payload = {
+    aud: tokenUrl,
+    iss: profile.clientId,
+    sub: profile.clientId,
+    jti: crypto.randomUUID(),
+    nbf: now,
+    exp: now + 10 * 60,
+  };
+
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(
+    JSON.stringify(payload)
+  )}`;
+  const signature = crypto
+    .createSign("RSA-SHA256")
+    .update(unsigned)
+    .sign(privateKey);
+
+  return `${unsigned}.${base64Url(signature)}`;
+}
+
+/**
+ * Requests a new access token for a Dynamics 365 organization using the client credentials flow.
+ * Uses the v2.0 endpoint with a ".default" scope unless the profile asks for the legacy v1 endpoint,
+ * and a certificate assertion when the profile has a certificate, otherwise the client secret.
+ *
+ * @param {EnvironmentProfile} profile - The environment whose tenant, client and organization the token is for.
+ * @returns {Promise<AccessToken>} A promise that resolves to the token and its expiry.
+ * @throws Will throw an error if credentials are missing or the token request fails.
+ */
+export async function requestAccessToken(
+  profile: EnvironmentProfile
+): Promise<AccessToken> {
+  try {
+    const { tenantId, clientId } = profile;
+
+    if (!tenantId || !clientId) {
+      throw new Error(
+        `Missing tenantId or clientId for profile "${profile.name}".`
+      );
+    }
+
+    const useV1 = profile.authority === "v1";
+    const tokenUrl = useV1
+      ? `https://login.microsoftonline.com/${tenantId}/oauth2/token`
+      : `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+
+    const params = new URLSearchParams();
+    params.append("client_id", clientId);
+    params.append("grant_type", "client_credentials");
+    if (useV1) {
+      params.append("resource", getResource(profile));
+    } else {
+      params.append("scope", getScope(profile));
+    }
+
+    if (profile.certificatePath) {
+      params.append(
+        "client_assertion_type",
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer"
+      );
+      params.append(
+        "client_assertion",
+        createClientAssertion(profile, tokenUrl)
+      );
+    } else {
+      params.append("client_secret", resolveClientSecret(profile));
+    }
+
+    const response = await axios.post(tokenUrl, params.toString(), {
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+
+    const expiresIn = Number(response.data.expires_in ?? 3600);
+    return {
+      token: response.data.access_token,
+      expiresAt: Date.now() + expiresIn * 1000,
+    };
+  } catch (error: any) {
+    console.error(
+      "Error getting access token:",
+      error.response?.data || error.message
+    );
+    throw error;
+  }
+}
+
+/**
+ * Creates a token provider for a profile that caches the current token and refreshes it shortly before expiry.
+ * Concurrent callers waiting on a refresh share the same token request.
+ *
+ * @param {EnvironmentProfile} profile - The environment tokens are issued for.
+ * @returns {TokenProvider} The token provider.
+ */
+export function createTokenProvider(
+  profile: EnvironmentProfile
+): TokenProvider {
+  let cached: AccessToken | null = null;
+  let pending: Promise<AccessToken> | null = null;
+
+  async function getToken(forceRefresh = false): Promise<string> {
+    if (forceRefresh) {
+      cached = null;
+    }
+    if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+
+    if (!pending) {
+      console.log(`Fetching access token for profile "${profile.name}"...`);
+      pending = requestAccessToken(profile).finally(() => {
+        pending = null;
+      });
+    }
+
+    cached = await pending;
+    return cached.token;
+  }
+
+  return { getToken };
+}
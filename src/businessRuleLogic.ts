@@ -0,0 +1,548 @@
+// src/businessRuleLogic.ts
+
+import { parseStringPromise } from "xml2js";
+
+import { BusinessRule } from "./types/crm";
+
+/**
+ * A single comparison in a business rule condition (e.g., address1_country Equal "USA").
+ */
+export interface RuleCondition {
+  kind: "condition";
+  field: string;
+  entity: string;
+  operator: string;
+  values: string[];
+}
+
+/**
+ * Conditions combined with AND or OR. Nested groups keep the grouping the rule designer shows.
+ */
+export interface RuleConditionGroup {
+  kind: "group";
+  logicalOperator: "AND" | "OR";
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+/**
+ * Something a business rule does when its condition is met (or not met, for else branches).
+ */
+export interface RuleAction {
+  /** The friendly action name (e.g., "Lock", "Set Business Required", "Show Error Message"). */
+  action: string;
+  field: string;
+  value: string;
+  /** The step label from the designer (e.g., "Lock State"). */
+  label: string;
+}
+
+/**
+ * One if / else-if / else branch of a business rule.
+ */
+export interface RuleBranch {
+  /** The designer's step name (e.g., "ConditionBranchStep2"). */
+  step: string;
+  /** "If", "Else If" or "Else". */
+  branch: string;
+  description: string;
+  condition: RuleConditionNode | null;
+  actions: RuleAction[];
+}
+
+/** Friendly names for the condition operators the rule designer writes into XAML. */
+const conditionOperators: Record<string, string> = {
+  Equal: "Equals",
+  NotEqual: "Does Not Equal",
+  Null: "Does Not Contain Data",
+  NotNull: "Contains Data",
+  GreaterThan: "Is Greater Than",
+  GreaterEqual: "Is Greater Than or Equal To",
+  LessThan: "Is Less Than",
+  LessEqual: "Is Less Than or Equal To",
+  Contains: "Contains",
+  DoesNotContain: "Does Not Contain",
+  BeginsWith: "Begins With",
+  DoesNotBeginWith: "Does Not Begin With",
+  EndsWith: "Ends With",
+  DoesNotEndWith: "Does Not End With",
+};
+
+/** Friendly names for the client-side activities business rules use as actions. */
+const clientActions: Record<string, string> = {
+  SetDisplayMode: "Lock",
+  SetVisibility: "Show",
+  SetFieldRequiredLevel: "Set Business Required",
+  SetMessage: "Show Error Message",
+  SetDefaultValue: "Set Default Value",
+  SetAttributeValue: "Set Field Value",
+  SetEntityProperty: "Set Field Value",
+};
+
+type XamlNode = {
+  "#name": string;
+  $?: Record<string, string>;
+  $$?: XamlNode[];
+  _?: string;
+};
+
+type XamlValue =
+  | { kind: "field"; field: string; entity: string }
+  | { kind: "value"; value: string };
+
+interface WalkContext {
+  values: Map<string, XamlValue>;
+  conditions: Map<string, RuleConditionNode>;
+  branches: RuleBranch[];
+}
+
+function localName(node: XamlNode): string {
+  const name = node["#name"];
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function children(node: XamlNode): XamlNode[] {
+  return node.$$ || [];
+}
+
+/**
+ * Returns the short class name of an ActivityReference (e.g., "EvaluateCondition").
+ */
+function activityClass(node: XamlNode): string {
+  const qualified = node.$?.AssemblyQualifiedName || "";
+  const typeName = qualified.split(",")[0];
+  return typeName.slice(typeName.lastIndexOf(".") + 1);
+}
+
+/**
+ * Collects the keyed children of a "*.Arguments" or "*.Properties" element.
+ */
+function keyedChildren(
+  node: XamlNode,
+  suffix: ".Arguments" | ".Properties"
+): Record<string, XamlNode> {
+  const keyed: Record<string, XamlNode> = {};
+  for (const child of children(node)) {
+    if (child["#name"].endsWith(suffix)) {
+      for (const item of children(child)) {
+        const key = item.$?.["x:Key"];
+        if (key) {
+          keyed[key] = item;
+        }
+      }
+    }
+  }
+  return keyed;
+}
+
+function argumentText(node: XamlNode | undefined): string {
+  return (node?._ || "").trim();
+}
+
+/**
+ * Strips the brackets from a VB expression reference such as "[ConditionBranchStep2_1]".
+ */
+function variableName(expression: string): string {
+  return expression.replace(/^\[|\]$/g, "").trim();
+}
+
+/**
+ * Splits the arguments of a "[New Object() { a, "b", c }]" expression, respecting quoted strings.
+ */
+export function parseParameterList(expression: string): string[] {
+  const start = expression.indexOf("{");
+  const end = expression.lastIndexOf("}");
+  if (start === -1 || end === -1) {
+    return [];
+  }
+
+  const body = expression.slice(start + 1, end);
+  const items: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '"') {
+      if (quoted && body[i + 1] === '"') {
+        current += '"';
+        i++;
+        continue;
+      }
+      quoted = !quoted;
+      current += char;
+    } else if (char === "," && !quoted) {
+      items.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) {
+    items.push(current.trim());
+  }
+
+  return items;
+}
+
+function isLiteral(item: string): boolean {
+  return item.startsWith('"') && item.endsWith('"');
+}
+
+function unquote(item: string): string {
+  return item.slice(1, -1);
+}
+
+function resolveValue(ctx: WalkContext, reference: string): string {
+  const resolved = ctx.values.get(variableName(reference));
+  if (!resolved) {
+    return variableName(reference);
+  }
+  return resolved.kind === "field" ? resolved.field : resolved.value;
+}
+
+/**
+ * Records the value produced by an EvaluateExpression activity.
+ * CreateCrmType yields a literal; other operators (arithmetic, dates) are kept as a readable formula.
+ */
+function handleExpression(ctx: WalkContext, args: Record<string, XamlNode>) {
+  const result = variableName(argumentText(args.Result));
+  const operator = argumentText(args.ExpressionOperator);
+  const parameters = parseParameterList(argumentText(args.Parameters));
+
+  let value: string;
+  if (operator === "CreateCrmType") {
+    const literal = parameters.find(isLiteral);
+    value = literal ? unquote(literal) : "";
+  } else {
+    const operands = parameters
+      .filter((item) => !item.includes("WorkflowPropertyType"))
+      .map((item) =>
+        isLiteral(item) ? unquote(item) : resolveValue(ctx, item)
+      );
+    value = `${operator}(${operands.join(", ")})`;
+  }
+
+  ctx.values.set(result, { kind: "value", value });
+}
+
+function handleCondition(ctx: WalkContext, args: Record<string, XamlNode>) {
+  const result = variableName(argumentText(args.Result));
+  const operand = ctx.values.get(variableName(argumentText(args.Operand)));
+  const operator = argumentText(args.ConditionOperator);
+  const values = parseParameterList(argumentText(args.Parameters)).map((item) =>
+    isLiteral(item) ? unquote(item) : resolveValue(ctx, item)
+  );
+
+  ctx.conditions.set(result, {
+    kind: "condition",
+    field: operand?.kind === "field" ? operand.field : "",
+    entity: operand?.kind === "field" ? operand.entity : "",
+    operator: conditionOperators[operator] || operator,
+    values,
+  });
+}
+
+function handleLogicalCondition(
+  ctx: WalkContext,
+  args: Record<string, XamlNode>
+) {
+  const result = variableName(argumentText(args.Result));
+  const logicalOperator =
+    argumentText(args.LogicalOperator).toUpperCase() === "OR" ? "OR" : "AND";
+  const operands = [args.LeftOperand, args.RightOperand]
+    .map((arg) => ctx.conditions.get(variableName(argumentText(arg))))
+    .filter((node): node is RuleConditionNode => node !== undefined);
+
+  // Flatten chains such as (a OR b) OR c into a single OR group.
+  const flattened = operands.flatMap((node) =>
+    node.kind === "group" && node.logicalOperator === logicalOperator
+      ? node.conditions
+      : [node]
+  );
+
+  ctx.conditions.set(result, {
+    kind: "group",
+    logicalOperator,
+    conditions: flattened,
+  });
+}
+
+/**
+ * Turns a client-side activity (mcwc:*) or SetEntityProperty into an action.
+ */
+function toAction(ctx: WalkContext, node: XamlNode, label: string): RuleAction {
+  const name = localName(node);
+  const attrs = node.$ || {};
+  let action = clientActions[name] || name;
+  let value = "";
+
+  if (name === "SetDisplayMode") {
+    action = attrs.IsReadOnly === "True" ? "Lock" : "Unlock";
+  } else if (name === "SetVisibility") {
+    action = attrs.IsVisible === "False" ? "Hide" : "Show";
+  } else if (name === "SetFieldRequiredLevel") {
+    value = attrs.RequiredLevel || "";
+    action =
+      value === "Required"
+        ? "Set Business Required"
+        : value === "Recommended"
+        ? "Set Business Recommended"
+        : "Set Not Business Required";
+  } else {
+    const valueNode = children(node).find(
+      (child) =>
+        child["#name"].endsWith(".Value") || child["#name"].endsWith(".Message")
+    );
+    const raw =
+      attrs.Value ||
+      attrs.Message ||
+      argumentText(valueNode ? children(valueNode)[0] || valueNode : undefined);
+    value = raw.startsWith("[") ? resolveValue(ctx, raw) : raw;
+  }
+
+  return {
+    action,
+    field: attrs.ControlId || attrs.Attribute || "",
+    value,
+    label,
+  };
+}
+
+/**
+ * Walks activities in document order, tracking variables, conditions and branches.
+ */
+function walk(
+  ctx: WalkContext,
+  node: XamlNode,
+  branch: RuleBranch | null,
+  label: string
+) {
+  const name = localName(node);
+
+  if (name === "GetEntityProperty") {
+    const attrs = node.$ || {};
+    ctx.values.set(variableName(attrs.Value || ""), {
+      kind: "field",
+      field: attrs.Attribute || "",
+      entity: attrs.EntityName || "",
+    });
+    return;
+  }
+
+  if (name === "Sequence") {
+    const displayName = node.$?.DisplayName || "";
+    const stepLabel = displayName.includes(":")
+      ? displayName.slice(displayName.indexOf(":") + 1).trim()
+      : displayName;
+    children(node).forEach((child) => walk(ctx, child, branch, stepLabel));
+    return;
+  }
+
+  if (node["#name"].startsWith("mcwc:") || name === "SetEntityProperty") {
+    if (branch) {
+      branch.actions.push(toAction(ctx, node, label));
+    }
+    return;
+  }
+
+  if (name === "ActivityReference") {
+    const args = keyedChildren(node, ".Arguments");
+    const props = keyedChildren(node, ".Properties");
+
+    switch (activityClass(node)) {
+      case "EvaluateExpression":
+        handleExpression(ctx, args);
+        return;
+      case "EvaluateCondition":
+        handleCondition(ctx, args);
+        return;
+      case "EvaluateLogicalCondition":
+        handleLogicalCondition(ctx, args);
+        return;
+      case "ConditionBranch": {
+        const conditionRef = variableName(argumentText(args.Condition));
+        const condition = ctx.conditions.get(conditionRef) || null;
+        const isElse = conditionRef === "True" && ctx.branches.length > 0;
+        const current: RuleBranch = {
+          step: node.$?.DisplayName || "",
+          branch: isElse ? "Else" : ctx.branches.length > 0 ? "Else If" : "If",
+          description: argumentText(props.Description),
+          condition: isElse ? null : condition,
+          actions: [],
+        };
+        ctx.branches.push(current);
+
+        if (props.Then) {
+          walk(ctx, props.Then, current, label);
+        }
+        if (props.Else && localName(props.Else) !== "Null") {
+          // Else may hold plain actions or a nested condition chain (else-if branches).
+          const elseBranch: RuleBranch = {
+            step: current.step,
+            branch: "Else",
+            description: "",
+            condition: null,
+            actions: [],
+          };
+          const index = ctx.branches.push(elseBranch) - 1;
+          walk(ctx, props.Else, elseBranch, label);
+          if (elseBranch.actions.length === 0) {
+            ctx.branches.splice(index, 1);
+          }
+        }
+        return;
+      }
+    }
+  }
+
+  children(node).forEach((child) => walk(ctx, child, branch, label));
+}
+
+/**
+ * Parses business rule XAML into its branches, each with a structured condition tree and a list of actions.
+ *
+ * @param {string} xaml - The workflow XAML of a business rule.
+ * @returns {Promise<RuleBranch[]>} A promise that resolves to the rule's branches in designer order.
+ * @throws Will throw an error if the XAML is not well-formed XML.
+ */
+export async function parseBusinessRuleXaml(
+  xaml: string
+): Promise<RuleBranch[]> {
+  const document = await parseStringPromise(
+    xaml.replace(/^\uFEFF/, "").replace(/^<\?xml[^>]*\?>/, ""),
+    {
+      explicitChildren: true,
+      preserveChildrenOrder: true,
+      explicitRoot: false,
+    }
+  );
+
+  const ctx: WalkContext = {
+    values: new Map(),
+    conditions: new Map(),
+    branches: [],
+  };
+  walk(ctx, document as XamlNode, null, "");
+
+  return ctx.branches;
+}
+
+/**
+ * Renders a condition tree as text, e.g. (address1_country Equals "USA" OR address1_country Equals "usa").
+ */
+export function describeCondition(node: RuleConditionNode): string {
+  if (node.kind === "condition") {
+    const values = node.values.map((value) => `"${value}"`).join(", ");
+    return [node.field, node.operator, values].filter(Boolean).join(" ");
+  }
+  const parts = node.conditions.map(describeCondition);
+  return parts.length > 1
+    ? `(${parts.join(` ${node.logicalOperator} `)})`
+    : parts[0] || "";
+}
+
+/**
+ * Flattens a condition tree into leaf conditions, each with the path of AND/OR groups it sits in.
+ */
+function flattenConditions(
+  node: RuleConditionNode,
+  path: string[] = []
+): { condition: RuleCondition; group: string }[] {
+  if (node.kind === "condition") {
+    return [{ condition: node, group: path.join(" > ") }];
+  }
+  return node.conditions.flatMap((child, index) =>
+    flattenConditions(child, [
+      ...path,
+      `${node.logicalOperator}${path.length > 0 ? ` #${index + 1}` : ""}`,
+    ])
+  );
+}
+
+/**
+ * Transforms a parsed business rule into one row per condition and per action for Excel export.
+ *
+ * @param {string} ruleName - The business rule name.
+ * @param {RuleBranch[]} branches - The branches returned by parseBusinessRuleXaml.
+ * @returns {Record<string, any>[]} The rows for the "Business Rule Logic" sheet.
+ */
+export function transformBusinessRuleLogic(
+  ruleName: string,
+  branches: RuleBranch[]
+): Record<string, any>[] {
+  const rows: Record<string, any>[] = [];
+
+  for (const branch of branches) {
+    const base = {
+      "Business Rule": ruleName,
+      Step: branch.step,
+      Branch: branch.branch,
+    };
+
+    if (branch.condition) {
+      for (const { condition, group } of flattenConditions(branch.condition)) {
+        rows.push({
+          ...base,
+          "Row Type": "Condition",
+          Grouping: group,
+          Field: condition.field,
+          "Operator / Action": condition.operator,
+          Value: condition.values.join(", "),
+          Description:
+            branch.description || describeCondition(branch.condition),
+        });
+      }
+    }
+
+    for (const action of branch.actions) {
+      rows.push({
+        ...base,
+        "Row Type": "Action",
+        Grouping: "",
+        Field: action.field,
+        "Operator / Action": action.action,
+        Value: action.value,
+        Description: action.label,
+      });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Builds the "Business Rule Logic" sheet records, with one row per condition and action of every business rule
+ * (category 2) on the entity. Rules whose XAML cannot be parsed are skipped with a warning.
+ *
+ * @param {string} entityName - The name of the entity whose business rules are being added.
+ * @param {BusinessRule[]} businessRules - The rules returned by fetchEntityBusinessRules.
+ * @returns {Promise<Record<string, any>[]>} A promise that resolves to the sheet records.
+ */
+export async function buildBusinessRuleLogicRecords(
+  entityName: string,
+  businessRules: BusinessRule[]
+): Promise<Record<string, any>[]> {
+  const rules = businessRules.filter(
+    (rule) => rule.category === 2 && rule.xaml
+  );
+
+  const transformed: Record<string, any>[] = [];
+  for (const rule of rules) {
+    try {
+      const branches = await parseBusinessRuleXaml(rule.xaml as string);
+      transformed.push(...transformBusinessRuleLogic(rule.name, branches));
+    } catch (error: any) {
+      console.warn(
+        `Could not parse XAML for business rule "${rule.name}":`,
+        error.message
+      );
+    }
+  }
+  console.log(
+    `Parsed ${rules.length} Business Rules into ${transformed.length} logic rows for ${entityName}`
+  );
+
+  return transformed;
+}
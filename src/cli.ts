@@ -0,0 +1,1347 @@
+// src/cli.ts
+
+import { AxiosAdapter } from "axios";
+import * as fs from "fs";
+import * as path from "path";
+import { createTokenProvider } from "./auth";
+import { ColumnStatsOptions, DEFAULT_STATS_SAMPLE } from "./columnStats";
+import { mapConcurrent } from "./concurrency";
+import {
+  createBatchingClient,
+  createDataverseClient,
+  DataverseClient,
+} from "./dataverseClient";
+import {
+  DiscoveryCriteria,
+  discoverEntities,
+  fetchEntityDefinitions,
+  validateEntityNames,
+} from "./discovery";
+import {
+  EntityMetadata,
+  emptyEntityMetadata,
+  fetchEntityMetadata,
+  MetadataPart,
+  METADATA_PARTS,
+} from "./entityMetadata";
+import {
+  DiagramFormat,
+  DiagramOptions,
+  DIAGRAM_FORMATS,
+  SYSTEM_ENTITIES,
+  writeDiagrams,
+} from "./erDiagram";
+import {
+  DIFF_PARTS,
+  diffEntityMetadata,
+  formatChangeReport,
+  MetadataChange,
+  writeDiffWorkbook,
+} from "./metadataDiff";
+import { DocsFormat, DOCS_FORMATS, writeDocsSite } from "./docsSite";
+import {
+  COMBINED_WORKBOOK,
+  createExporter,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  SECURITY_MATRIX_WORKBOOK,
+} from "./exporters";
+import { createFixtureRecorder } from "./fixtures";
+import {
+  CHOICES_WORKBOOK,
+  fetchGlobalOptionSets,
+  writeChoicesWorkbook,
+} from "./optionSets";
+import {
+  DataExportOptions,
+  DataFormat,
+  DATA_FORMATS,
+  exportTableData,
+} from "./dataExport";
+import {
+  exportEntityMetadata,
+  ProcessedEntity,
+  processEntityAll,
+  SheetName,
+  SHEET_NAMES,
+} from "./processEntity";
+import {
+  createSnapshot,
+  readSnapshot,
+  snapshotEntity,
+  writeSnapshot,
+} from "./snapshots";
+import {
+  DEFAULT_PROFILES_FILE,
+  EnvironmentProfile,
+  getWebApiUrl,
+  loadProfile,
+  profileFromEnvironment,
+} from "./profiles";
+
+const USAGE = `Usage: ts-dynamics-web-api <command> [options]
+
+Commands:
+  export                Export entity metadata workbooks (default command)
+  compare               Compare entity metadata between two profiles and write a diff workbook
+  snapshot-diff         Compare two metadata snapshots offline and print a change report
+  data                  Export table records (reference data) to XLSX or CSV
+  help                  Show this help
+
+Export options:
+  -e, --entities <list>     Comma-separated entity logical names
+  --entities-file <path>    File with one entity logical name per line ("#" starts a comment)
+  --prefix <list>           Discover entities whose logical name starts with one of these publisher prefixes
+  --custom-only             Discover custom entities only
+  --solution <name>         Discover the entities in the solution with this unique name
+  --profile <name>          Environment profile to use (default: the file's defaultProfile)
+  --profiles-file <path>    Profile config file (default: ${DEFAULT_PROFILES_FILE} or DYNAMICS_PROFILES)
+  --org-url <url>           Organization URL; overrides the profile (or ORG_URL without a profile file)
+  --api-version <version>   Web API version; overrides the profile (default: 9.2)
+  -o, --output-dir <path>   Folder the workbooks are written to (default: ./outputs)
+  --format <list>           Comma-separated output formats (default: xlsx):
+                              xlsx      one workbook per entity (<entity>.xlsx)
+                              combined  one workbook with every entity in each sheet (${COMBINED_WORKBOOK})
+                              csv       one file per sheet (<entity>/<sheet>.csv)
+                              json      one file per entity with the records of each sheet (<entity>.json)
+                              security  one workbook with a sheet per privilege, security roles by entity
+                                        (${SECURITY_MATRIX_WORKBOOK})
+  --concurrency <n>         How many entities are fetched at the same time (default: 4)
+  --batch-size <n>          Most metadata GETs sent in one OData $batch; 0 sends them one by one (default: 50)
+  --sheets <list>           Comma-separated sheets to include (default: all)
+                            One or more of: ${SHEET_NAMES.join(", ")}
+  --docs-dir <path>         Also write a documentation site (index plus one page per entity) to this folder
+  --docs-format <format>    Documentation page format: ${DOCS_FORMATS.join(
+    " or "
+  )} (default: markdown)
+  --diagram-dir <path>      Also write ER diagrams of the relationships to this folder
+  --diagram-format <list>   Diagram formats: ${DIAGRAM_FORMATS.join(
+    ", "
+  )} (default: both)
+  --diagram-entity <name>   Diagram only this entity and its neighbours (default: the relationships
+                            among the processed entities)
+  --diagram-hops <n>        How many relationships away from --diagram-entity to include (default: 1)
+  --diagram-exclude <list>  More entities whose relationships are left out of diagrams
+  --include-system          Keep relationships to system entities (${SYSTEM_ENTITIES.slice(
+    0,
+    3
+  ).join(", ")}, ...) in diagrams
+  --column-stats            Profile how many records fill each column (adds population, choice histogram
+                            and modified-on range columns to the Columns sheet)
+  --stats-sample <n>        Records read per entity when it has too many for aggregate queries (default: ${DEFAULT_STATS_SAMPLE})
+  --choices                 Also write the global choice catalogue (${CHOICES_WORKBOOK}): every global choice
+                            with its values and the attributes using it, plus the entities' local choices
+  --record-fixtures <path>  Record every Web API response of the run to this fixture file (for offline tests)
+  --snapshot-dir <path>     Also save the fetched metadata as a timestamped JSON snapshot in this folder
+  --from-snapshot <path>    Build the workbooks from a snapshot instead of Dataverse (no profile needed;
+                            entities default to every entity in the snapshot)
+  -h, --help                Show this help
+
+Compare options:
+  --source <name>           Profile treated as the baseline (e.g., dev)
+  --target <name>           Profile compared against the baseline (e.g., test)
+  Entity selection, --profiles-file, --api-version, --output-dir, --concurrency and
+  --batch-size work as for export.
+  Discovery runs against the source profile. The workbook is written to
+  <output-dir>/compare-<source>-<target>.xlsx.
+
+Snapshot-diff options:
+  --source <path>           Snapshot treated as the baseline (e.g., last month's)
+  --target <path>           Snapshot compared against the baseline
+  --report <path>           Also write the differences to this diff workbook
+  -e, --entities <list>     Only compare these entities (default: every entity in either snapshot)
+
+Data options:
+  -e, --entities <list>     Comma-separated tables to export, by entity logical name
+  --entities-file <path>    File with one entity logical name per line
+  --select <list>           Comma-separated columns to export (lookups as _<name>_value; default: all)
+  --filter <expression>     OData $filter applied to every table (e.g., "statecode eq 0")
+  --orderby <expression>    OData $orderby applied to every table
+  --expand <expression>     OData $expand; expanded columns are written as <navigation>.<column>
+  --fetchxml <path>         Export the results of this FetchXML query instead (its <entity> is the table;
+                            cannot be combined with the options above)
+  --max-records <n>         Stop each table after this many records (default: every record)
+  --format <format>         Output format: ${DATA_FORMATS.join(
+    " or "
+  )} (default: xlsx)
+  --raw-values              Write stored values (option numbers, lookup IDs) instead of formatted values
+  Profile options and --output-dir work as for export. Each table is written to
+  <output-dir>/<entity>-data.<format> (<output-dir>/<fetchxml file name>.<format> for --fetchxml).
+
+Explicit entities and discovered entities are combined. Explicit names that do not exist
+in the org are reported before processing starts and count as failures.
+
+Exit codes:
+  0  every entity was exported
+  1  one or more entities failed
+  2  invalid command line
+`;
+
+const SHORT_FLAGS: Record<string, string> = {
+  e: "entities",
+  o: "output-dir",
+  h: "help",
+};
+
+const BOOLEAN_FLAGS = new Set([
+  "help",
+  "custom-only",
+  "include-system",
+  "column-stats",
+  "raw-values",
+  "choices",
+]);
+
+/**
+ * Raised when the command line cannot be understood; reported with the usage text and exit code 2.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export interface ParsedArgs {
+  command: string;
+  flags: Record<string, string | boolean>;
+}
+
+export interface EntitySelection {
+  entities: string[];
+  discovery: DiscoveryCriteria | null;
+}
+
+/**
+ * How hard a run works the Web API: entities fetched at once, and GETs grouped into each $batch.
+ */
+export interface RequestOptions {
+  concurrency: number;
+  batchSize: number;
+}
+
+export interface ExportOptions extends EntitySelection, RequestOptions {
+  /** The environment to export from; null when building from a snapshot. */
+  profile: EnvironmentProfile | null;
+  outputDir: string;
+  formats: OutputFormat[];
+  sheets: SheetName[];
+  snapshotDir?: string;
+  fromSnapshot?: string;
+  recordFixtures?: string;
+  docsDir?: string;
+  docsFormat: DocsFormat;
+  diagramDir?: string;
+  diagramFormats: DiagramFormat[];
+  diagram: DiagramOptions;
+  columnStats?: ColumnStatsOptions;
+  /** Also write the global choice catalogue (CHOICES_WORKBOOK). */
+  choices: boolean;
+}
+
+export interface CompareOptions extends EntitySelection, RequestOptions {
+  source: EnvironmentProfile;
+  target: EnvironmentProfile;
+  outputDir: string;
+}
+
+export interface DataOptions {
+  profile: EnvironmentProfile;
+  /** The tables to export, each with its output file. */
+  tables: { entity: string; outputPath: string }[];
+  query: Omit<DataExportOptions, "format" | "outputPath" | "rawValues">;
+  format: DataFormat;
+  rawValues: boolean;
+}
+
+export interface SnapshotDiffOptions {
+  source: string;
+  target: string;
+  entities: string[];
+  report?: string;
+}
+
+/**
+ * Returns true if a token names a flag: a known "--flag" (with or without "=value") or a short alias.
+ */
+function isFlag(token: string): boolean {
+  if (token.startsWith("--")) {
+    return KNOWN_FLAGS.has(token.slice(2).split("=")[0]);
+  }
+  return token.startsWith("-") && token.slice(1) in SHORT_FLAGS;
+}
+
+/**
+ * Splits raw process arguments into a command and its flags.
+ * Supports "--flag value", "--flag=value" and the short aliases in SHORT_FLAGS. A value may start with "-";
+ * a missing value is reported only when the next token is itself a known flag.
+ *
+ * @param {string[]} argv - The arguments after the node executable and script path.
+ * @returns {ParsedArgs} The command (defaults to "export") and a map of flag values.
+ * @throws {UsageError} If a flag is missing its value or an unexpected positional argument is found.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const flags: Record<string, string | boolean> = {};
+  let command: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg.startsWith("-")) {
+      let name: string;
+      let value: string | undefined;
+
+      if (arg.startsWith("--")) {
+        const eq = arg.indexOf("=");
+        name = eq === -1 ? arg.slice(2) : arg.slice(2, eq);
+        value = eq === -1 ? undefined : arg.slice(eq + 1);
+      } else {
+        name = SHORT_FLAGS[arg.slice(1)];
+        if (!name) {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+      }
+
+      if (BOOLEAN_FLAGS.has(name)) {
+        flags[name] = true;
+        continue;
+      }
+
+      if (value === undefined) {
+        value = argv[i + 1];
+        if (value === undefined || isFlag(value)) {
+          throw new UsageError(`Option --${name} requires a value.`);
+        }
+        i++;
+      }
+
+      flags[name] = value;
+    } else if (command === undefined) {
+      command = arg;
+    } else {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  return { command: command ?? "export", flags };
+}
+
+/**
+ * Splits a comma-separated flag value into trimmed, non-empty items.
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Reads entity logical names from a file, one per line, ignoring blank lines and "#" comments.
+ *
+ * @param {string} filePath - The path of the entity list file.
+ * @returns {string[]} The entity logical names in file order.
+ */
+export function readEntitiesFile(filePath: string): string[] {
+  return fs
+    .readFileSync(filePath, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Selects the environment profile for a run.
+ * Uses --profile from the profile config file when given, the file's default profile when the file exists,
+ * and otherwise an ad-hoc profile from --org-url/ORG_URL and the TENANT_ID/CLIENT_ID/CLIENT_SECRET variables.
+ * --org-url and --api-version override whichever profile is selected.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {EnvironmentProfile} The selected profile.
+ * @throws {UsageError} If the profile cannot be loaded or no organization URL is known.
+ */
+export function resolveProfile(
+  flags: Record<string, string | boolean>
+): EnvironmentProfile {
+  const profilesFile = String(
+    flags["profiles-file"] ??
+      process.env.DYNAMICS_PROFILES ??
+      DEFAULT_PROFILES_FILE
+  );
+  const profileName =
+    typeof flags["profile"] === "string" ? flags["profile"] : undefined;
+  const orgUrl = typeof flags["org-url"] === "string" ? flags["org-url"] : "";
+  const apiVersion =
+    typeof flags["api-version"] === "string" ? flags["api-version"] : "";
+
+  let profile: EnvironmentProfile;
+  if (profileName || fs.existsSync(profilesFile)) {
+    try {
+      profile = loadProfile(profilesFile, profileName);
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+  } else {
+    const envOrgUrl = orgUrl || process.env.ORG_URL;
+    if (!envOrgUrl) {
+      throw new UsageError(
+        `No organization URL given; use --profile, --org-url or ORG_URL.`
+      );
+    }
+    profile = profileFromEnvironment(envOrgUrl, apiVersion || "9.2");
+  }
+
+  return {
+    ...profile,
+    orgUrl: (orgUrl || profile.orgUrl).replace(/\/+$/, ""),
+    apiVersion: (apiVersion || profile.apiVersion).replace(/^v/i, ""),
+  };
+}
+
+/**
+ * Rejects flags that the command does not accept.
+ *
+ * @throws {UsageError} If any flag is not in the known list.
+ */
+function checkFlags(flags: Record<string, string | boolean>, known: string[]) {
+  for (const name of Object.keys(flags)) {
+    if (!known.includes(name)) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+  }
+}
+
+const ENTITY_FLAGS = [
+  "entities",
+  "entities-file",
+  "prefix",
+  "custom-only",
+  "solution",
+];
+
+/**
+ * Reads the explicit entity list and the discovery criteria from parsed flags.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @param {boolean} [required=true] - Whether at least one entity or discovery criterion must be given.
+ * @returns {EntitySelection} The explicit entities (deduplicated) and the discovery criteria, if any.
+ * @throws {UsageError} If neither entities nor discovery criteria were given and they are required.
+ */
+export function resolveEntitySelection(
+  flags: Record<string, string | boolean>,
+  required = true
+): EntitySelection {
+  const entities: string[] = [];
+  if (typeof flags["entities"] === "string") {
+    entities.push(...splitList(flags["entities"]));
+  }
+  if (typeof flags["entities-file"] === "string") {
+    entities.push(...readEntitiesFile(flags["entities-file"]));
+  }
+
+  let discovery: DiscoveryCriteria | null = null;
+  if (flags["prefix"] || flags["custom-only"] || flags["solution"]) {
+    discovery = {
+      prefixes:
+        typeof flags["prefix"] === "string" ? splitList(flags["prefix"]) : [],
+      customOnly: flags["custom-only"] === true,
+      solution:
+        typeof flags["solution"] === "string" ? flags["solution"] : undefined,
+    };
+  }
+
+  if (required && entities.length === 0 && !discovery) {
+    throw new UsageError(
+      "No entities given; use --entities, --entities-file, --prefix, --custom-only or --solution."
+    );
+  }
+
+  return { entities: Array.from(new Set(entities)), discovery };
+}
+
+const REQUEST_FLAGS = ["concurrency", "batch-size"];
+
+/**
+ * Reads --concurrency and --batch-size from parsed flags.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {RequestOptions} The concurrency (default 4) and batch size (default 50).
+ * @throws {UsageError} If either value is not a whole number in range.
+ */
+export function resolveRequestOptions(
+  flags: Record<string, string | boolean>
+): RequestOptions {
+  const concurrency = Number(flags["concurrency"] ?? 4);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError("--concurrency must be a whole number of at least 1.");
+  }
+
+  // Dataverse accepts at most 1000 requests in one $batch.
+  const batchSize = Number(flags["batch-size"] ?? 50);
+  if (!Number.isInteger(batchSize) || batchSize < 0 || batchSize > 1000) {
+    throw new UsageError("--batch-size must be a whole number from 0 to 1000.");
+  }
+
+  return { concurrency, batchSize };
+}
+
+/** The flags each command accepts. */
+const EXPORT_FLAGS = [
+  ...ENTITY_FLAGS,
+  ...REQUEST_FLAGS,
+  "profile",
+  "profiles-file",
+  "org-url",
+  "api-version",
+  "output-dir",
+  "format",
+  "sheets",
+  "snapshot-dir",
+  "from-snapshot",
+  "record-fixtures",
+  "docs-dir",
+  "docs-format",
+  "diagram-dir",
+  "diagram-format",
+  "diagram-entity",
+  "diagram-hops",
+  "diagram-exclude",
+  "include-system",
+  "column-stats",
+  "stats-sample",
+  "choices",
+  "help",
+];
+
+const COMPARE_FLAGS = [
+  ...ENTITY_FLAGS,
+  ...REQUEST_FLAGS,
+  "source",
+  "target",
+  "profiles-file",
+  "api-version",
+  "output-dir",
+  "help",
+];
+
+const SNAPSHOT_DIFF_FLAGS = ["source", "target", "report", "entities", "help"];
+
+const DATA_FLAGS = [
+  "entities",
+  "entities-file",
+  "select",
+  "filter",
+  "orderby",
+  "expand",
+  "fetchxml",
+  "max-records",
+  "format",
+  "raw-values",
+  "profile",
+  "profiles-file",
+  "org-url",
+  "api-version",
+  "output-dir",
+  "help",
+];
+
+/** Every flag some command accepts; parseArgs reads a token that is one of these as a flag, not a value. */
+const KNOWN_FLAGS = new Set([
+  ...EXPORT_FLAGS,
+  ...COMPARE_FLAGS,
+  ...SNAPSHOT_DIFF_FLAGS,
+  ...DATA_FLAGS,
+]);
+
+/**
+ * Builds the export options from parsed flags, falling back to environment variables and defaults.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {ExportOptions} The validated export options.
+ * @throws {UsageError} If no entities or profile were given, or an unknown sheet was requested.
+ */
+export function resolveExportOptions(
+  flags: Record<string, string | boolean>
+): ExportOptions {
+  checkFlags(flags, EXPORT_FLAGS);
+  const fromSnapshot =
+    typeof flags["from-snapshot"] === "string"
+      ? flags["from-snapshot"]
+      : undefined;
+  const selection = resolveEntitySelection(flags, !fromSnapshot);
+
+  if (fromSnapshot) {
+    if (selection.discovery) {
+      throw new UsageError(
+        "--prefix, --custom-only and --solution cannot be used with --from-snapshot."
+      );
+    }
+    for (const flag of [
+      "snapshot-dir",
+      "record-fixtures",
+      "column-stats",
+      "choices",
+    ]) {
+      if (flags[flag]) {
+        throw new UsageError(`--${flag} cannot be used with --from-snapshot.`);
+      }
+    }
+  }
+
+  const docsFormat = String(flags["docs-format"] ?? "markdown").toLowerCase();
+  if (!(DOCS_FORMATS as readonly string[]).includes(docsFormat)) {
+    throw new UsageError(`Unknown docs format: ${docsFormat}`);
+  }
+
+  const diagramFormats = splitList(
+    String(flags["diagram-format"] ?? DIAGRAM_FORMATS.join(",")).toLowerCase()
+  );
+  const unknownFormats = diagramFormats.filter(
+    (format) => !(DIAGRAM_FORMATS as readonly string[]).includes(format)
+  );
+  if (unknownFormats.length > 0) {
+    throw new UsageError(
+      `Unknown diagram format(s): ${unknownFormats.join(", ")}`
+    );
+  }
+
+  const formats = splitList(String(flags["format"] ?? "xlsx").toLowerCase());
+  const unknownOutputs = formats.filter(
+    (format) => !(OUTPUT_FORMATS as readonly string[]).includes(format)
+  );
+  if (formats.length === 0 || unknownOutputs.length > 0) {
+    throw new UsageError(
+      `Unknown output format(s): ${unknownOutputs.join(", ") || "(none)"}`
+    );
+  }
+
+  const sampleSize = Number(flags["stats-sample"] ?? DEFAULT_STATS_SAMPLE);
+  if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+    throw new UsageError(
+      "--stats-sample must be a whole number of at least 1."
+    );
+  }
+
+  const hops = Number(flags["diagram-hops"] ?? 1);
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new UsageError("--diagram-hops must be a whole number.");
+  }
+
+  let sheets: SheetName[] = [...SHEET_NAMES];
+  if (typeof flags["sheets"] === "string") {
+    const requested = splitList(flags["sheets"].toLowerCase());
+    const unknown = requested.filter(
+      (sheet) => !(SHEET_NAMES as readonly string[]).includes(sheet)
+    );
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown sheet(s): ${unknown.join(", ")}`);
+    }
+    sheets = SHEET_NAMES.filter((sheet) => requested.includes(sheet));
+  }
+
+  return {
+    ...selection,
+    ...resolveRequestOptions(flags),
+    profile: fromSnapshot ? null : resolveProfile(flags),
+    outputDir: String(flags["output-dir"] ?? "./outputs"),
+    formats: Array.from(new Set(formats)) as OutputFormat[],
+    sheets,
+    snapshotDir:
+      typeof flags["snapshot-dir"] === "string"
+        ? flags["snapshot-dir"]
+        : undefined,
+    fromSnapshot,
+    recordFixtures:
+      typeof flags["record-fixtures"] === "string"
+        ? flags["record-fixtures"]
+        : undefined,
+    docsDir:
+      typeof flags["docs-dir"] === "string" ? flags["docs-dir"] : undefined,
+    docsFormat: docsFormat as DocsFormat,
+    diagramDir:
+      typeof flags["diagram-dir"] === "string"
+        ? flags["diagram-dir"]
+        : undefined,
+    diagramFormats: diagramFormats as DiagramFormat[],
+    diagram: {
+      exclude: [
+        ...(flags["include-system"] ? [] : SYSTEM_ENTITIES),
+        ...(typeof flags["diagram-exclude"] === "string"
+          ? splitList(flags["diagram-exclude"])
+          : []),
+      ],
+      root:
+        typeof flags["diagram-entity"] === "string"
+          ? flags["diagram-entity"]
+          : undefined,
+      hops,
+    },
+    columnStats: flags["column-stats"] ? { sampleSize } : undefined,
+    choices: Boolean(flags["choices"]),
+  };
+}
+
+/**
+ * Writes the optional documentation site and ER diagrams once every entity has been processed.
+ *
+ * @param {ExportOptions} options - The resolved export options.
+ * @param {ProcessedEntity[]} processed - The entities that were exported.
+ */
+function writeRunOutputs(options: ExportOptions, processed: ProcessedEntity[]) {
+  if (options.docsDir) {
+    writeDocsSite(processed, options.docsDir, options.docsFormat);
+  }
+  if (options.diagramDir) {
+    const { root } = options.diagram;
+    if (root && !processed.some((e) => e.metadata.entityName === root)) {
+      console.warn(
+        `Warning: --diagram-entity ${root} was not processed; its diagram only shows relationships found on other entities.`
+      );
+    }
+    writeDiagrams(
+      processed.map((entity) => entity.metadata),
+      options.diagramDir,
+      options.diagramFormats,
+      options.diagram
+    );
+  }
+}
+
+/**
+ * Builds the compare options from parsed flags.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {CompareOptions} The validated compare options.
+ * @throws {UsageError} If no entities were given, or --source/--target is missing or cannot be loaded.
+ */
+export function resolveCompareOptions(
+  flags: Record<string, string | boolean>
+): CompareOptions {
+  checkFlags(flags, COMPARE_FLAGS);
+  const selection = resolveEntitySelection(flags);
+
+  if (typeof flags["source"] !== "string" || !flags["source"]) {
+    throw new UsageError("compare requires --source <profile>.");
+  }
+  if (typeof flags["target"] !== "string" || !flags["target"]) {
+    throw new UsageError("compare requires --target <profile>.");
+  }
+
+  return {
+    ...selection,
+    ...resolveRequestOptions(flags),
+    source: resolveProfile({ ...flags, profile: flags["source"] }),
+    target: resolveProfile({ ...flags, profile: flags["target"] }),
+    outputDir: String(flags["output-dir"] ?? "./outputs"),
+  };
+}
+
+/**
+ * Builds the snapshot-diff options from parsed flags.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {SnapshotDiffOptions} The validated snapshot-diff options.
+ * @throws {UsageError} If --source or --target is missing.
+ */
+export function resolveSnapshotDiffOptions(
+  flags: Record<string, string | boolean>
+): SnapshotDiffOptions {
+  checkFlags(flags, SNAPSHOT_DIFF_FLAGS);
+
+  if (typeof flags["source"] !== "string" || !flags["source"]) {
+    throw new UsageError("snapshot-diff requires --source <snapshot>.");
+  }
+  if (typeof flags["target"] !== "string" || !flags["target"]) {
+    throw new UsageError("snapshot-diff requires --target <snapshot>.");
+  }
+
+  return {
+    source: flags["source"],
+    target: flags["target"],
+    entities:
+      typeof flags["entities"] === "string" ? splitList(flags["entities"]) : [],
+    report: typeof flags["report"] === "string" ? flags["report"] : undefined,
+  };
+}
+
+/**
+ * Builds the data export options from parsed flags.
+ *
+ * @param {Record<string, string | boolean>} flags - The flags returned by parseArgs.
+ * @returns {DataOptions} The validated data export options.
+ * @throws {UsageError} If no tables were given, the FetchXML file cannot be read or names no entity,
+ * or the query options conflict.
+ */
+export function resolveDataOptions(
+  flags: Record<string, string | boolean>
+): DataOptions {
+  checkFlags(flags, DATA_FLAGS);
+  const outputDir = String(flags["output-dir"] ?? "./outputs");
+
+  const format = String(flags["format"] ?? "xlsx").toLowerCase();
+  if (!(DATA_FORMATS as readonly string[]).includes(format)) {
+    throw new UsageError(`Unknown data format: ${format}`);
+  }
+
+  const maxRecords =
+    flags["max-records"] === undefined
+      ? undefined
+      : Number(flags["max-records"]);
+  if (
+    maxRecords !== undefined &&
+    (!Number.isInteger(maxRecords) || maxRecords < 1)
+  ) {
+    throw new UsageError("--max-records must be a whole number of at least 1.");
+  }
+
+  const text = (name: string) =>
+    typeof flags[name] === "string" ? (flags[name] as string) : undefined;
+
+  let tables: DataOptions["tables"];
+  let query: DataOptions["query"];
+  const fetchXmlPath = text("fetchxml");
+  if (fetchXmlPath) {
+    for (const flag of [
+      "entities",
+      "entities-file",
+      "select",
+      "filter",
+      "orderby",
+      "expand",
+    ]) {
+      if (flags[flag]) {
+        throw new UsageError(`--${flag} cannot be used with --fetchxml.`);
+      }
+    }
+    let fetchXml: string;
+    try {
+      fetchXml = fs.readFileSync(fetchXmlPath, "utf8");
+    } catch (error: any) {
+      throw new UsageError(`Cannot read ${fetchXmlPath}: ${error.message}`);
+    }
+    const entity = /<entity\s[^>]*\bname\s*=\s*["']([^"']+)["']/.exec(
+      fetchXml
+    )?.[1];
+    if (!entity) {
+      throw new UsageError(
+        `${fetchXmlPath} has no <entity name="..."> element.`
+      );
+    }
+    tables = [
+      {
+        entity,
+        outputPath: path.join(
+          outputDir,
+          `${path.parse(fetchXmlPath).name}.${format}`
+        ),
+      },
+    ];
+    query = { fetchXml, maxRecords };
+  } else {
+    const { entities } = resolveEntitySelection(flags, false);
+    if (entities.length === 0) {
+      throw new UsageError(
+        "data requires --entities, --entities-file or --fetchxml."
+      );
+    }
+    tables = entities.map((entity) => ({
+      entity,
+      outputPath: path.join(outputDir, `${entity}-data.${format}`),
+    }));
+    query = {
+      select: text("select") ? splitList(text("select") as string) : undefined,
+      filter: text("filter"),
+      orderBy: text("orderby"),
+      expand: text("expand"),
+      maxRecords,
+    };
+  }
+
+  return {
+    profile: resolveProfile(flags),
+    tables,
+    query,
+    format: format as DataFormat,
+    rawValues: flags["raw-values"] === true,
+  };
+}
+
+/**
+ * Acquires a token for a profile and creates a Web API client for it.
+ *
+ * @param {EnvironmentProfile} profile - The environment to connect to.
+ * @param {AxiosAdapter} [adapter] - Replaces how requests are sent (e.g., a fixture recorder).
+ * @returns {Promise<DataverseClient>} A promise that resolves to the client.
+ * @throws Will throw an error if the token request fails.
+ */
+async function connect(
+  profile: EnvironmentProfile,
+  adapter?: AxiosAdapter
+): Promise<DataverseClient> {
+  console.log(`Using profile "${profile.name}" (${profile.orgUrl}).`);
+
+  const tokenProvider = createTokenProvider(profile);
+  await tokenProvider.getToken();
+  console.log("Access token acquired.");
+
+  return createDataverseClient({
+    baseUrl: getWebApiUrl(profile),
+    tokenProvider,
+    adapter,
+  });
+}
+
+/**
+ * Returns the client one entity's metadata is fetched with: a batching client unless batching is off,
+ * so the GETs the fetchers start together go out as one $batch.
+ */
+function entityClient(
+  client: DataverseClient,
+  options: RequestOptions
+): DataverseClient {
+  return options.batchSize > 0
+    ? createBatchingClient(client, options.batchSize)
+    : client;
+}
+
+/**
+ * Works out which entities to process: the explicit names that exist in the org plus any discovered entities.
+ * Unknown explicit names are reported as a warning before processing starts, unless the caller reports them.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {string[]} explicit - The entities named on the command line or in an entity file.
+ * @param {DiscoveryCriteria | null} discovery - The discovery criteria, if discovery mode is on.
+ * @param {boolean} [warnUnknown=true] - Warn that unknown names will be skipped.
+ * @returns {Promise<{ entities: string[]; unknown: string[] }>} The entities to process and the unknown names.
+ */
+async function selectEntities(
+  client: DataverseClient,
+  explicit: string[],
+  discovery: DiscoveryCriteria | null,
+  warnUnknown = true
+): Promise<{ entities: string[]; unknown: string[] }> {
+  const definitions = await fetchEntityDefinitions(client);
+  const { known, unknown } = validateEntityNames(explicit, definitions);
+
+  if (warnUnknown && unknown.length > 0) {
+    console.warn(
+      `Warning: ${
+        unknown.length
+      } requested entities do not exist in this org and will be skipped: ${unknown.join(
+        ", "
+      )}`
+    );
+  }
+
+  if (!discovery) {
+    return { entities: known, unknown };
+  }
+
+  const discovered = await discoverEntities(client, discovery, definitions);
+  console.log(`Discovered ${discovered.length} entities.`);
+
+  return {
+    entities: Array.from(new Set([...known, ...discovered])),
+    unknown,
+  };
+}
+
+/**
+ * Returns the metadata a run needs beyond its sheets: everything for a snapshot, relationships for diagrams,
+ * security roles for the security matrix, attributes for the choice catalogue.
+ */
+function extraParts(options: ExportOptions): MetadataPart[] {
+  if (options.snapshotDir) {
+    return METADATA_PARTS;
+  }
+  return [
+    ...(options.diagramDir ? (["relationships"] as const) : []),
+    ...(options.formats.includes("security")
+      ? (["securityRoles"] as const)
+      : []),
+    ...(options.choices ? (["attributes"] as const) : []),
+  ];
+}
+
+/**
+ * Exports a workbook for every requested entity, continuing past failures.
+ *
+ * @param {ExportOptions} options - The resolved export options.
+ * @returns {Promise<number>} 0 if every entity was exported, otherwise 1.
+ */
+async function runExport(options: ExportOptions): Promise<number> {
+  if (options.fromSnapshot) {
+    return runExportFromSnapshot(options, options.fromSnapshot);
+  }
+
+  const profile = options.profile as EnvironmentProfile;
+  const recorder = options.recordFixtures ? createFixtureRecorder() : null;
+  const client = await connect(profile, recorder?.adapter);
+  const { entities, unknown } = await selectEntities(
+    client,
+    options.entities,
+    options.discovery
+  );
+  const exporter = createExporter(options.formats, options.outputDir);
+
+  const results = await mapConcurrent(
+    entities,
+    options.concurrency,
+    async (entity) => {
+      console.log(`Processing entity: ${entity}`);
+      try {
+        const result = await processEntityAll(
+          entityClient(client, options),
+          entity,
+          {
+            exporter,
+            sheets: options.sheets,
+            extraParts: extraParts(options),
+            columnStats: options.columnStats,
+          }
+        );
+        console.log(`Finished processing entity: ${entity}`);
+        return result;
+      } catch (error: any) {
+        console.error(
+          `Failed to process entity ${entity}:`,
+          error.response?.data || error.message
+        );
+        return null;
+      }
+    }
+  );
+
+  // Results are in entity order however the requests interleaved, so every output is deterministic.
+  const processed = results.filter(
+    (result): result is ProcessedEntity => result !== null
+  );
+  const failed = [
+    ...unknown,
+    ...entities.filter((_, index) => results[index] === null),
+  ];
+
+  await exporter.finish();
+  let choicesFailed = false;
+  if (options.choices) {
+    try {
+      await writeChoicesWorkbook(
+        await fetchGlobalOptionSets(client),
+        processed.map((entity) => entity.metadata),
+        options.outputDir
+      );
+    } catch (error: any) {
+      console.error(
+        "Failed to export the global choices:",
+        error.response?.data || error.message
+      );
+      choicesFailed = true;
+    }
+  }
+  if (options.snapshotDir) {
+    writeSnapshot(
+      createSnapshot(
+        profile,
+        processed.map((entity) => entity.metadata)
+      ),
+      options.snapshotDir
+    );
+  }
+  writeRunOutputs(options, processed);
+  if (recorder && options.recordFixtures) {
+    recorder.save(options.recordFixtures);
+  }
+
+  const total = entities.length + unknown.length;
+  console.log(`Exported ${total - failed.length} of ${total} entities.`);
+  if (failed.length > 0) {
+    console.error(`Failed entities: ${failed.join(", ")}`);
+    return 1;
+  }
+  return choicesFailed ? 1 : 0;
+}
+
+/**
+ * Rebuilds workbooks from a saved snapshot without contacting Dataverse.
+ *
+ * @param {ExportOptions} options - The resolved export options.
+ * @param {string} snapshotPath - The snapshot to read.
+ * @returns {Promise<number>} 0 if every entity was exported, otherwise 1.
+ */
+async function runExportFromSnapshot(
+  options: ExportOptions,
+  snapshotPath: string
+): Promise<number> {
+  const snapshot = readSnapshot(snapshotPath);
+  console.log(
+    `Using snapshot of "${snapshot.profile}" (${snapshot.orgUrl}) taken ${snapshot.createdAt}.`
+  );
+
+  const available = snapshot.entities.map((entity) => entity.entityName);
+  const entities = options.entities.length > 0 ? options.entities : available;
+  const failed = entities.filter((entity) => !available.includes(entity));
+  if (failed.length > 0) {
+    console.warn(
+      `Warning: the snapshot does not contain: ${failed.join(", ")}`
+    );
+  }
+
+  const exporter = createExporter(options.formats, options.outputDir);
+  const processed: ProcessedEntity[] = [];
+  for (const entity of entities.filter((name) => available.includes(name))) {
+    try {
+      processed.push(
+        await exportEntityMetadata(snapshotEntity(snapshot, entity), {
+          exporter,
+          sheets: options.sheets,
+        })
+      );
+    } catch (error: any) {
+      console.error(`Failed to export entity ${entity}:`, error.message);
+      failed.push(entity);
+    }
+  }
+
+  await exporter.finish();
+  writeRunOutputs(options, processed);
+
+  console.log(
+    `Exported ${entities.length - failed.length} of ${
+      entities.length
+    } entities.`
+  );
+  if (failed.length > 0) {
+    console.error(`Failed entities: ${failed.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Compares every requested entity between the source and target profiles and writes one diff workbook.
+ * An entity that fails to load in either environment is reported and left out of the workbook.
+ *
+ * @param {CompareOptions} options - The resolved compare options.
+ * @returns {Promise<number>} 0 if every entity was compared, otherwise 1.
+ */
+async function runCompare(options: CompareOptions): Promise<number> {
+  const { source, target } = options;
+  const sourceClient = await connect(source);
+  const targetClient = await connect(target);
+  const selected = await selectEntities(
+    sourceClient,
+    options.entities,
+    options.discovery,
+    false
+  );
+  // Names missing from the source are compared when the target has them, as added entities.
+  const { known: added, unknown } =
+    selected.unknown.length > 0
+      ? validateEntityNames(
+          selected.unknown,
+          await fetchEntityDefinitions(targetClient)
+        )
+      : { known: [], unknown: [] };
+  if (unknown.length > 0) {
+    console.warn(
+      `Warning: ${
+        unknown.length
+      } requested entities exist in neither environment and will be skipped: ${unknown.join(
+        ", "
+      )}`
+    );
+  }
+  const entities = [...selected.entities, ...added];
+
+  // An entity missing from one environment (its definition returns 404) diffs as entirely added or removed.
+  const fetchSide = async (
+    entity: string,
+    client: DataverseClient,
+    name: string
+  ): Promise<EntityMetadata | null> => {
+    try {
+      return await fetchEntityMetadata(
+        entity,
+        entityClient(client, options),
+        DIFF_PARTS
+      );
+    } catch (error: any) {
+      if (error.response?.status !== 404) {
+        throw error;
+      }
+      console.log(`Entity ${entity} does not exist in ${name}.`);
+      return null;
+    }
+  };
+
+  const results = await mapConcurrent(
+    entities,
+    options.concurrency,
+    async (entity): Promise<MetadataChange[] | null> => {
+      console.log(`Comparing entity: ${entity}`);
+      try {
+        const [before, after] = await Promise.all([
+          fetchSide(entity, sourceClient, source.name),
+          fetchSide(entity, targetClient, target.name),
+        ]);
+        if (!before && !after) {
+          throw new Error(`${entity} does not exist in either environment.`);
+        }
+        const entityChanges = diffEntityMetadata(
+          before || emptyEntityMetadata(entity),
+          after || emptyEntityMetadata(entity)
+        );
+        console.log(`Found ${entityChanges.length} differences for ${entity}.`);
+        return entityChanges;
+      } catch (error: any) {
+        console.error(
+          `Failed to compare entity ${entity}:`,
+          error.response?.data || error.message
+        );
+        return null;
+      }
+    }
+  );
+
+  const compared = entities.filter((_, index) => results[index] !== null);
+  const changes = results.flatMap((result) => result || []);
+  const failed = [
+    ...unknown,
+    ...entities.filter((_, index) => results[index] === null),
+  ];
+
+  await writeDiffWorkbook(
+    changes,
+    compared,
+    { source: source.name, target: target.name },
+    path.join(options.outputDir, `compare-${source.name}-${target.name}.xlsx`)
+  );
+
+  const total = entities.length + unknown.length;
+  console.log(`Compared ${compared.length} of ${total} entities.`);
+  if (failed.length > 0) {
+    console.error(`Failed entities: ${failed.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Compares two snapshots offline, prints the change report and optionally writes it to a diff workbook.
+ *
+ * @param {SnapshotDiffOptions} options - The resolved snapshot-diff options.
+ * @returns {Promise<number>} 0 once the report has been produced.
+ */
+async function runSnapshotDiff(options: SnapshotDiffOptions): Promise<number> {
+  const source = readSnapshot(options.source);
+  const target = readSnapshot(options.target);
+  console.log(
+    `Comparing "${source.profile}" ${source.createdAt} with "${target.profile}" ${target.createdAt}.`
+  );
+
+  const entities =
+    options.entities.length > 0
+      ? options.entities
+      : Array.from(
+          new Set(
+            [...source.entities, ...target.entities].map(
+              (entity) => entity.entityName
+            )
+          )
+        ).sort();
+
+  const changes = entities.flatMap((entity) =>
+    diffEntityMetadata(
+      snapshotEntity(source, entity),
+      snapshotEntity(target, entity)
+    )
+  );
+  console.log(formatChangeReport(changes));
+
+  if (options.report) {
+    await writeDiffWorkbook(
+      changes,
+      entities,
+      { source: options.source, target: options.target },
+      options.report
+    );
+  }
+  return 0;
+}
+
+/**
+ * Exports the records of every requested table, one file per table, continuing past failures.
+ *
+ * @param {DataOptions} options - The resolved data export options.
+ * @returns {Promise<number>} 0 if every table was exported, otherwise 1.
+ */
+async function runDataExport(options: DataOptions): Promise<number> {
+  const client = await connect(options.profile);
+
+  const failed: string[] = [];
+  for (const { entity, outputPath } of options.tables) {
+    console.log(`Exporting records of ${entity}`);
+    try {
+      await exportTableData(client, entity, {
+        ...options.query,
+        format: options.format,
+        outputPath,
+        rawValues: options.rawValues,
+      });
+    } catch (error: any) {
+      console.error(
+        `Failed to export records of ${entity}:`,
+        error.response?.data || error.message
+      );
+      failed.push(entity);
+    }
+  }
+
+  const total = options.tables.length;
+  console.log(
+    `Exported records of ${total - failed.length} of ${total} tables.`
+  );
+  if (failed.length > 0) {
+    console.error(`Failed tables: ${failed.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Runs the command line interface.
+ *
+ * @param {string[]} argv - The arguments after the node executable and script path.
+ * @returns {Promise<number>} The process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  try {
+    const { command, flags } = parseArgs(argv);
+
+    if (command === "help" || flags["help"]) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    switch (command) {
+      case "export":
+        return await runExport(resolveExportOptions(flags));
+      case "compare":
+        return await runCompare(resolveCompareOptions(flags));
+      case "snapshot-diff":
+        return await runSnapshotDiff(resolveSnapshotDiffOptions(flags));
+      case "data":
+        return await runDataExport(resolveDataOptions(flags));
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      console.error(USAGE);
+      return 2;
+    }
+    console.error("Unhandled error:", error.response?.data || error.message);
+    return 1;
+  }
+}
@@ -0,0 +1,393 @@
+// src/columnStats.ts
+
+import { mapConcurrent } from "./concurrency";
+import { DataverseClient } from "./dataverseClient";
+import {
+  fetchAggregate,
+  fetchData,
+  fetchEntitySetName,
+  formattedValue,
+  isAggregateLimitError,
+} from "./dynamics";
+import { localizedLabel } from "./labels";
+import { Attribute } from "./types/crm";
+
+/** Records read per entity when it is too large for aggregate queries. */
+export const DEFAULT_STATS_SAMPLE = 5000;
+
+/** How many profiling queries of one entity are in flight at once (they share a $batch when batching is on). */
+const PROFILE_CONCURRENCY = 10;
+
+/** Column types that cannot be filtered or read as plain values. */
+const UNPROFILED_TYPES = [
+  "Virtual",
+  "PartyList",
+  "EntityName",
+  "CalendarRules",
+  "ManagedProperty",
+];
+
+/** Column types whose values are options, profiled with a per-option histogram. */
+const CHOICE_TYPES = ["Picklist", "State", "Status", "Boolean"];
+
+/** Lookup column types; the Web API returns their values as "_<name>_value". */
+const LOOKUP_TYPES = ["Lookup", "Customer", "Owner"];
+
+export interface ColumnStatsOptions {
+  /** The most records read when an entity is too large for aggregate queries. */
+  sampleSize: number;
+}
+
+/**
+ * The population of one column.
+ */
+export interface ColumnStat {
+  /** How many records have a value. */
+  populated: number;
+  /** Choice columns: how many different options are used. */
+  distinct?: number;
+  /** Choice columns: the records per option, most used first. */
+  histogram?: { value: string; label: string; count: number }[];
+  /** The earliest and latest modifiedon of the records that have a value. */
+  modifiedFrom?: string;
+  modifiedTo?: string;
+}
+
+/**
+ * The column population of an entity, kept with its metadata (and in snapshots).
+ */
+export interface ColumnStats {
+  profiledAt: string;
+  /** "aggregate": exact counts over every record; "sample": counts over the first sampleSize records. */
+  method: "aggregate" | "sample";
+  /** The records the counts are out of. */
+  records: number;
+  /** Keyed by attribute logical name; attributes that could not be profiled are missing. */
+  columns: Record<string, ColumnStat>;
+}
+
+function isMultiSelect(attribute: Attribute): boolean {
+  return attribute.AttributeTypeName?.Value === "MultiSelectPicklistType";
+}
+
+function isProfiled(attribute: Attribute): boolean {
+  if (attribute.AttributeOf || attribute.IsValidForRead === false) {
+    return false;
+  }
+  return (
+    !UNPROFILED_TYPES.includes(attribute.AttributeType) ||
+    isMultiSelect(attribute)
+  );
+}
+
+/**
+ * Returns a choice column's option labels by value ("true"/"false" for yes/no columns).
+ */
+function optionLabels(attribute: Attribute): Map<string, string> {
+  const labels = new Map<string, string>();
+  const optionSet = attribute.OptionSet || attribute.GlobalOptionSet;
+  if (!optionSet) {
+    return labels;
+  }
+  if ("TrueOption" in optionSet) {
+    labels.set("true", localizedLabel(optionSet.TrueOption?.Label));
+    labels.set("false", localizedLabel(optionSet.FalseOption?.Label));
+    return labels;
+  }
+  for (const option of optionSet.Options || []) {
+    labels.set(String(option.Value), localizedLabel(option.Label));
+  }
+  return labels;
+}
+
+function histogram(
+  counts: Map<string, number>,
+  labels: Map<string, string>,
+  formatted: Map<string, string> = new Map()
+): ColumnStat["histogram"] {
+  return Array.from(counts, ([value, count]) => ({
+    value,
+    label: labels.get(value) || formatted.get(value) || value,
+    count,
+  })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Counts the records of an entity with aggregate FetchXML: one query per column for its population and
+ * modifiedon range, one grouped query per choice column for its histogram, and one query per option of a
+ * multi-select choice column (which cannot be grouped by) for the records that include the option.
+ */
+async function profileWithAggregates(
+  client: DataverseClient,
+  entityName: string,
+  entitySetName: string,
+  primaryId: string,
+  attributes: Attribute[],
+  hasModifiedOn: boolean
+): Promise<Record<string, ColumnStat>> {
+  const query = (body: string) =>
+    fetchAggregate(
+      entitySetName,
+      `<fetch aggregate="true"><entity name="${entityName}">${body}</entity></fetch>`,
+      client
+    );
+
+  const columns: Record<string, ColumnStat> = {};
+  const failed: string[] = [];
+
+  await mapConcurrent(attributes, PROFILE_CONCURRENCY, async (attribute) => {
+    const name = attribute.LogicalName;
+    try {
+      const [row] = await query(
+        [
+          `<attribute name="${primaryId}" alias="populated" aggregate="count" />`,
+          hasModifiedOn
+            ? `<attribute name="modifiedon" alias="modifiedfrom" aggregate="min" />` +
+              `<attribute name="modifiedon" alias="modifiedto" aggregate="max" />`
+            : "",
+          `<filter><condition attribute="${name}" operator="not-null" /></filter>`,
+        ].join("")
+      );
+      const stat: ColumnStat = {
+        populated: Number(row?.populated ?? 0),
+        modifiedFrom: row?.modifiedfrom ?? undefined,
+        modifiedTo: row?.modifiedto ?? undefined,
+      };
+
+      if (CHOICE_TYPES.includes(attribute.AttributeType)) {
+        const groups = await query(
+          `<attribute name="${name}" alias="value" groupby="true" />` +
+            `<attribute name="${primaryId}" alias="count" aggregate="count" />`
+        );
+        const counts = new Map<string, number>();
+        const formatted = new Map<string, string>();
+        for (const group of groups) {
+          if (group.value === null || group.value === undefined) {
+            continue;
+          }
+          counts.set(String(group.value), Number(group.count));
+          formatted.set(
+            String(group.value),
+            formattedValue(group, "value") || ""
+          );
+        }
+        stat.distinct = counts.size;
+        stat.histogram = histogram(counts, optionLabels(attribute), formatted);
+      }
+
+      if (isMultiSelect(attribute)) {
+        // Counted the way the sample counts them: a record with several options counts once for each.
+        const labels = optionLabels(attribute);
+        const rows = await Promise.all(
+          Array.from(labels.keys(), (value) =>
+            query(
+              `<attribute name="${primaryId}" alias="count" aggregate="count" />` +
+                `<filter><condition attribute="${name}" operator="contain-values"><value>${value}</value></condition></filter>`
+            )
+          )
+        );
+        const counts = new Map<string, number>();
+        Array.from(labels.keys()).forEach((value, index) => {
+          const count = Number(rows[index][0]?.count ?? 0);
+          if (count > 0) {
+            counts.set(value, count);
+          }
+        });
+        stat.distinct = counts.size;
+        stat.histogram = histogram(counts, labels);
+      }
+
+      columns[name] = stat;
+    } catch {
+      failed.push(name);
+    }
+  });
+
+  if (failed.length > 0) {
+    console.warn(
+      `Could not profile ${
+        failed.length
+      } columns of ${entityName}: ${failed.join(", ")}`
+    );
+  }
+  return columns;
+}
+
+/**
+ * Counts column population over the first sampleSize records, read page by page.
+ */
+async function profileWithSample(
+  client: DataverseClient,
+  entitySetName: string,
+  attributes: Attribute[],
+  hasModifiedOn: boolean,
+  sampleSize: number
+): Promise<{ records: number; columns: Record<string, ColumnStat> }> {
+  const webName = (attribute: Attribute) =>
+    LOOKUP_TYPES.includes(attribute.AttributeType)
+      ? `_${attribute.LogicalName}_value`
+      : attribute.LogicalName;
+
+  const records = await fetchData(entitySetName, client, {
+    select: [
+      ...attributes.map(webName),
+      ...(hasModifiedOn ? ["modifiedon"] : []),
+    ].filter((name, index, all) => all.indexOf(name) === index),
+    maxRecords: sampleSize,
+  });
+
+  const columns: Record<string, ColumnStat> = {};
+  for (const attribute of attributes) {
+    const key = webName(attribute);
+    const choice =
+      CHOICE_TYPES.includes(attribute.AttributeType) ||
+      isMultiSelect(attribute);
+    const stat: ColumnStat = { populated: 0 };
+    const counts = new Map<string, number>();
+
+    for (const record of records) {
+      const value = record[key];
+      if (value === null || value === undefined || value === "") {
+        continue;
+      }
+      stat.populated++;
+      const modifiedOn = record.modifiedon;
+      if (modifiedOn) {
+        if (!stat.modifiedFrom || modifiedOn < stat.modifiedFrom) {
+          stat.modifiedFrom = modifiedOn;
+        }
+        if (!stat.modifiedTo || modifiedOn > stat.modifiedTo) {
+          stat.modifiedTo = modifiedOn;
+        }
+      }
+      if (choice) {
+        // Multi-select choices come back as "1,2,3".
+        for (const option of String(value).split(",")) {
+          counts.set(option, (counts.get(option) || 0) + 1);
+        }
+      }
+    }
+
+    if (choice) {
+      stat.distinct = counts.size;
+      stat.histogram = histogram(counts, optionLabels(attribute));
+    }
+    columns[attribute.LogicalName] = stat;
+  }
+
+  return { records: records.length, columns };
+}
+
+/**
+ * Profiles how the columns of an entity are populated: per column, how many records have a value, when those
+ * records were last modified, and for choice columns how often each option is used. Counts are exact
+ * (aggregate FetchXML) unless the entity has more records than Dataverse aggregates allow, in which case the
+ * first sampleSize records are read and counted instead.
+ * Lookup name columns, virtual columns and other columns that cannot be filtered are not profiled.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {string} entityName - The logical name of the entity.
+ * @param {Attribute[]} attributes - The attributes returned by fetchEntityAttributes.
+ * @param {ColumnStatsOptions} options - The sample size used for large entities.
+ * @returns {Promise<ColumnStats>} A promise that resolves to the population of each profiled column.
+ * @throws Will throw an error if the entity set name or the record count cannot be read.
+ */
+export async function profileColumns(
+  client: DataverseClient,
+  entityName: string,
+  attributes: Attribute[],
+  options: ColumnStatsOptions
+): Promise<ColumnStats> {
+  const entitySetName = await fetchEntitySetName(entityName, client);
+  const primaryId =
+    attributes.find(
+      (attribute) => attribute.IsPrimaryId && !attribute.AttributeOf
+    )?.LogicalName || `${entityName}id`;
+  const hasModifiedOn = attributes.some(
+    (attribute) => attribute.LogicalName === "modifiedon"
+  );
+  const profiled = attributes.filter(isProfiled);
+  const profiledAt = new Date().toISOString();
+
+  let total: number;
+  try {
+    const [row] = await fetchAggregate(
+      entitySetName,
+      `<fetch aggregate="true"><entity name="${entityName}"><attribute name="${primaryId}" alias="total" aggregate="count" /></entity></fetch>`,
+      client
+    );
+    total = Number(row?.total ?? 0);
+  } catch (error: any) {
+    if (!isAggregateLimitError(error)) {
+      throw error;
+    }
+    console.log(
+      `${entityName} has too many records for aggregate queries; profiling the first ${options.sampleSize}.`
+    );
+    const sample = await profileWithSample(
+      client,
+      entitySetName,
+      profiled,
+      hasModifiedOn,
+      options.sampleSize
+    );
+    console.log(
+      `Profiled ${profiled.length} columns of ${entityName} over ${sample.records} sampled records.`
+    );
+    return { profiledAt, method: "sample", ...sample };
+  }
+
+  const columns = await profileWithAggregates(
+    client,
+    entityName,
+    entitySetName,
+    primaryId,
+    profiled,
+    hasModifiedOn
+  );
+  console.log(
+    `Profiled ${
+      Object.keys(columns).length
+    } columns of ${entityName} over ${total} records.`
+  );
+
+  return { profiledAt, method: "aggregate", records: total, columns };
+}
+
+/**
+ * Returns the Columns sheet fields for an attribute's population, blank when it was not profiled.
+ *
+ * @param {ColumnStats} stats - The entity's column population.
+ * @param {string} logicalName - The attribute logical name.
+ * @returns {Record<string, any>} The population fields, in sheet order.
+ */
+export function columnStatFields(
+  stats: ColumnStats,
+  logicalName: string
+): Record<string, any> {
+  const stat = stats.columns[logicalName];
+  if (!stat) {
+    return {
+      Populated: "",
+      "Populated %": "",
+      "Distinct Values": "",
+      "Value Histogram": "",
+      "Modified From": "",
+      "Modified To": "",
+    };
+  }
+
+  return {
+    Populated: stat.populated,
+    "Populated %":
+      stats.records > 0
+        ? Math.round((stat.populated / stats.records) * 1000) / 10
+        : "",
+    "Distinct Values": stat.distinct ?? "",
+    "Value Histogram": (stat.histogram || [])
+      .map(({ label, count }) => `${label}: ${count}`)
+      .join("; "),
+    "Modified From": stat.modifiedFrom || "",
+    "Modified To": stat.modifiedTo || "",
+  };
+}
@@ -0,0 +1,33 @@
+// src/concurrency.ts
+
+/**
+ * Runs an async function over items with at most `limit` calls in flight, returning results in item order
+ * regardless of the order the calls finish in.
+ *
+ * @param {T[]} items - The inputs.
+ * @param {number} limit - The most calls running at once (at least 1).
+ * @param {(item: T, index: number) => Promise<R>} fn - The function to run for each item.
+ * @returns {Promise<R[]>} A promise that resolves to the results, in the same order as items.
+ * @throws Will reject with the first error thrown by fn; callers that want to continue past failures catch inside fn.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+
+  return results;
+}
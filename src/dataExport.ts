@@ -0,0 +1,332 @@
+// src/dataExport.ts
+
+import * as ExcelJS from "exceljs";
+import { once } from "events";
+import * as fs from "fs";
+import * as path from "path";
+import { DataverseClient } from "./dataverseClient";
+import {
+  FetchDataOptions,
+  fetchEntitySetName,
+  fetchPages,
+  formattedValue,
+} from "./dynamics";
+import { csvField } from "./exporters";
+import { AttributeMetadata, Selected } from "./types/crm";
+
+export const DATA_FORMATS = ["xlsx", "csv"] as const;
+
+export type DataFormat = (typeof DATA_FORMATS)[number];
+
+/** The most rows an Excel worksheet holds; longer exports continue on another sheet. */
+const MAX_SHEET_ROWS = 1048576;
+
+/**
+ * What to export from one table and how to write it.
+ */
+export interface DataExportOptions
+  extends Omit<FetchDataOptions, "formattedValues" | "pageSize"> {
+  format: DataFormat;
+  /** The file written, including its extension. */
+  outputPath: string;
+  /** Write stored values (option numbers, lookup IDs) instead of formatted values. */
+  rawValues?: boolean;
+}
+
+const READ_COLUMN_FIELDS = [
+  "LogicalName",
+  "AttributeType",
+  "AttributeTypeName",
+  "AttributeOf",
+  "IsValidForRead",
+] as const satisfies readonly (keyof AttributeMetadata)[];
+
+type ReadColumn = Selected<AttributeMetadata, typeof READ_COLUMN_FIELDS>;
+
+/**
+ * Writes rows to an export file as they arrive.
+ */
+interface RowWriter {
+  write(values: any[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Returns the column name for a Web API property: lookups ("_primarycontactid_value") are named after
+ * their attribute.
+ */
+function columnName(key: string): string {
+  return key.replace(/^_(.+)_value$/, "$1");
+}
+
+/**
+ * Returns the columns a FetchXML query reads from its main entity, by alias where one is given; link-entity
+ * columns are left out. Returns undefined for queries with all-attributes.
+ */
+function fetchXmlColumns(fetchXml: string): string[] | undefined {
+  let main = fetchXml;
+  // Remove innermost link-entity elements until none are left.
+  for (let previous = ""; previous !== main; ) {
+    previous = main;
+    main = main.replace(
+      /<link-entity\b[^>]*?(\/>|>((?!<link-entity\b)[\s\S])*?<\/link-entity>)/g,
+      ""
+    );
+  }
+  if (/<all-attributes\b/.test(main)) {
+    return undefined;
+  }
+  return Array.from(main.matchAll(/<attribute\b([^>]*?)\/?>/g)).flatMap(
+    ([, attributes]) => {
+      const alias = /\salias\s*=\s*["']([^"']*)["']/.exec(attributes);
+      const name = /\sname\s*=\s*["']([^"']*)["']/.exec(attributes);
+      return alias ? [alias[1]] : name ? [name[1]] : [];
+    }
+  );
+}
+
+/**
+ * Fetches the columns the Web API returns for a table's records when none are selected: the readable
+ * attributes that are not part of another attribute (lookup names, etc.). Virtual attributes other than
+ * multi-select choices have no stored value and are left out.
+ */
+async function fetchReadColumns(
+  entityName: string,
+  client: DataverseClient
+): Promise<string[]> {
+  const attributes = await client.getAll<ReadColumn>(
+    `EntityDefinitions(LogicalName='${entityName}')/Attributes?$select=${READ_COLUMN_FIELDS.join(
+      ","
+    )}`
+  );
+  return attributes
+    .filter(
+      (attribute) =>
+        attribute.IsValidForRead &&
+        !attribute.AttributeOf &&
+        (attribute.AttributeType !== "Virtual" ||
+          attribute.AttributeTypeName?.Value === "MultiSelectPicklistType")
+    )
+    .map((attribute) => attribute.LogicalName)
+    .sort();
+}
+
+/**
+ * Returns the columns a query reads, before any record is read: the selected columns, the attributes of a
+ * FetchXML query, or every readable column of the table.
+ */
+async function queryColumns(
+  entityName: string,
+  client: DataverseClient,
+  query: Pick<FetchDataOptions, "select" | "fetchXml">
+): Promise<string[]> {
+  const columns = query.fetchXml
+    ? fetchXmlColumns(query.fetchXml)
+    : query.select;
+  return (columns || (await fetchReadColumns(entityName, client))).map(
+    columnName
+  );
+}
+
+/**
+ * Flattens a record into column values, using formatted values (option labels, lookup names, etc.) where
+ * Dataverse returned them. Expanded single records become "<navigation>.<column>" columns; expanded
+ * collections are written as JSON.
+ *
+ * @param {Record<string, any>} record - A record read with formatted values.
+ * @param {boolean} [rawValues=false] - Keep the stored values instead of the formatted ones.
+ * @returns {Record<string, any>} The column values, keyed by column name.
+ */
+export function flattenRecord(
+  record: Record<string, any>,
+  rawValues = false
+): Record<string, any> {
+  const row: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key.includes("@")) {
+      continue;
+    }
+    const name = columnName(key);
+    if (Array.isArray(value)) {
+      row[name] = JSON.stringify(
+        value.map((item) =>
+          item && typeof item === "object"
+            ? flattenRecord(item, rawValues)
+            : item
+        )
+      );
+    } else if (value && typeof value === "object") {
+      for (const [nested, nestedValue] of Object.entries(
+        flattenRecord(value, rawValues)
+      )) {
+        row[`${name}.${nested}`] = nestedValue;
+      }
+    } else {
+      const formatted = rawValues ? undefined : formattedValue(record, key);
+      row[name] = formatted ?? value ?? "";
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Opens a CSV file and writes the header line; waits for the stream to drain so memory stays flat.
+ */
+function createCsvWriter(filePath: string, headers: string[]): RowWriter {
+  const stream = fs.createWriteStream(filePath, { encoding: "utf8" });
+
+  const write = async (values: any[]) => {
+    if (!stream.write(values.map(csvField).join(",") + "\r\n")) {
+      await once(stream, "drain");
+    }
+  };
+  const header = write(headers);
+
+  return {
+    write: async (values) => {
+      await header;
+      await write(values);
+    },
+    close: async () => {
+      await header;
+      await new Promise<void>((resolve, reject) => {
+        stream.once("error", reject);
+        stream.end(() => resolve());
+      });
+    },
+  };
+}
+
+/**
+ * Opens a streaming XLSX workbook; each row is committed (flushed to disk) as soon as it is added.
+ */
+function createXlsxWriter(
+  filePath: string,
+  sheetName: string,
+  headers: string[]
+): RowWriter {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    filename: filePath,
+  });
+  let sheetCount = 0;
+  let worksheet: ExcelJS.Worksheet;
+  let rows = 0;
+
+  const addSheet = () => {
+    sheetCount++;
+    const name = sheetCount > 1 ? ` (${sheetCount})` : "";
+    // Worksheet names are limited to 31 characters.
+    worksheet = workbook.addWorksheet(
+      sheetName.slice(0, 31 - name.length) + name
+    );
+    worksheet.addRow(headers).commit();
+    rows = 1;
+  };
+  addSheet();
+
+  return {
+    write: async (values) => {
+      if (rows === MAX_SHEET_ROWS) {
+        worksheet.commit();
+        addSheet();
+      }
+      worksheet.addRow(values).commit();
+      rows++;
+    },
+    close: async () => {
+      worksheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+function createRowWriter(
+  format: DataFormat,
+  filePath: string,
+  sheetName: string,
+  headers: string[]
+): RowWriter {
+  return format === "csv"
+    ? createCsvWriter(filePath, headers)
+    : createXlsxWriter(filePath, sheetName, headers);
+}
+
+/**
+ * Exports the records of a table (or the results of a FetchXML query) to an XLSX or CSV file, page by page.
+ * Columns are those the query reads (see queryColumns), in that order, followed by any others of the first
+ * page (expanded columns); values of columns that only appear in later pages are left out with a warning.
+ * A partly written file is removed when the export fails.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {string} entityName - The logical name of the table.
+ * @param {DataExportOptions} options - The query, output file and format.
+ * @returns {Promise<number>} A promise that resolves to the number of records written.
+ * @throws Will throw an error if the table cannot be read or the file cannot be written.
+ */
+export async function exportTableData(
+  client: DataverseClient,
+  entityName: string,
+  options: DataExportOptions
+): Promise<number> {
+  const { format, outputPath, rawValues, ...query } = options;
+  const [entitySetName, columns] = await Promise.all([
+    fetchEntitySetName(entityName, client),
+    queryColumns(entityName, client, query),
+  ]);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+  let writer: RowWriter | null = null;
+  let headers: string[] = [];
+  const dropped = new Set<string>();
+  let records = 0;
+
+  try {
+    for await (const page of fetchPages(entitySetName, client, {
+      ...query,
+      formattedValues: !rawValues,
+    })) {
+      const rows = page.map((record) => flattenRecord(record, rawValues));
+      if (rows.length === 0) {
+        continue;
+      }
+      if (!writer) {
+        headers = Array.from(
+          new Set([...columns, ...rows.flatMap((row) => Object.keys(row))])
+        );
+        writer = createRowWriter(format, outputPath, entityName, headers);
+      }
+      const known = new Set(headers);
+      for (const row of rows) {
+        for (const name of Object.keys(row)) {
+          if (!known.has(name)) {
+            dropped.add(name);
+          }
+        }
+        await writer.write(headers.map((header) => row[header] ?? ""));
+        records++;
+      }
+    }
+
+    if (!writer) {
+      writer = createRowWriter(format, outputPath, entityName, columns);
+    }
+    await writer.close();
+  } catch (error) {
+    await writer?.close().catch(() => undefined);
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+
+  if (dropped.size > 0) {
+    console.warn(
+      `Warning: columns first returned after the first page of ${entityName} were skipped: ${Array.from(
+        dropped
+      ).join(", ")}`
+    );
+  }
+  console.log(`Wrote ${records} ${entityName} records to ${outputPath}.`);
+
+  return records;
+}
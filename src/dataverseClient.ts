@@ -0,0 +1,450 @@
+// src/dataverseClient.ts
+
+import axios, { AxiosAdapter, AxiosError, AxiosInstance } from "axios";
+import * as crypto from "crypto";
+import { TokenProvider } from "./auth";
+
+/**
+ * Options for creating a Dataverse Web API client.
+ */
+export interface DataverseClientOptions {
+  /** The Web API base URL (e.g., "https://org0b26dba9.crm.dynamics.com/api/data/v9.2"). */
+  baseUrl: string;
+  /** Supplies the OAuth2 access token for each request, refreshing it as it nears expiry. */
+  tokenProvider: TokenProvider;
+  /** How many times a throttled or failed request is retried before giving up (default: 5). */
+  maxRetries?: number;
+  /** The per-request timeout in milliseconds (default: 120000). */
+  timeoutMs?: number;
+  /** The delay before the first retry when the server does not send Retry-After (default: 1000). */
+  retryBaseDelayMs?: number;
+  /** Replaces how requests are sent, e.g., to record or replay fixtures (see fixtures.ts). */
+  adapter?: AxiosAdapter;
+}
+
+/**
+ * One GET request inside an OData $batch.
+ */
+export interface BatchRequest {
+  /** A path relative to baseUrl or an absolute URL. */
+  path: string;
+  /** Extra headers merged over the defaults. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * One response parsed out of a $batch response body.
+ */
+export interface BatchResponsePart {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * A thin wrapper around axios that every metadata fetcher uses to talk to the Dataverse Web API.
+ */
+export interface DataverseClient {
+  /** The Web API base URL that relative paths are resolved against. */
+  baseUrl: string;
+  /**
+   * Sends a GET request and returns the response body.
+   *
+   * @param pathOrUrl - A path relative to baseUrl (e.g., "savedqueries?$select=name") or an absolute URL.
+   * @param headers - Extra headers merged over the defaults.
+   */
+  get<T = any>(pathOrUrl: string, headers?: Record<string, string>): Promise<T>;
+  /**
+   * Sends a GET request for a collection and follows every "@odata.nextLink", returning all records.
+   *
+   * @param pathOrUrl - A path relative to baseUrl or an absolute URL.
+   * @param headers - Extra headers merged over the defaults.
+   */
+  getAll<T = any>(
+    pathOrUrl: string,
+    headers?: Record<string, string>
+  ): Promise<T[]>;
+  /**
+   * Sends several GET requests as one OData $batch and returns the outcome of each, in request order:
+   * the response body, or the error of that request alone. Parts throttled or failed with a retryable status
+   * are re-sent on their own with get(), and the batch settles once those retries have.
+   * The promise itself only rejects when the $batch request as a whole fails.
+   *
+   * @param requests - The GET requests to send.
+   */
+  batch<T = any>(requests: BatchRequest[]): Promise<PromiseSettledResult<T>[]>;
+}
+
+/** HTTP statuses that are worth retrying: service protection limits and transient server errors. */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/** Network-level error codes that are worth retrying. */
+const RETRYABLE_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "ERR_NETWORK",
+]);
+
+/** The longest single wait between retries, in milliseconds. */
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Works out how long to wait before retrying a failed request.
+ * Honors the Retry-After header (seconds or HTTP date) that Dataverse sends with 429 responses,
+ * otherwise backs off exponentially with jitter.
+ *
+ * @param {AxiosError} error - The failed request.
+ * @param {number} attempt - The zero-based retry attempt.
+ * @param {number} baseDelayMs - The delay before the first retry.
+ * @returns {number} The delay in milliseconds.
+ */
+export function getRetryDelay(
+  error: AxiosError,
+  attempt: number,
+  baseDelayMs: number
+): number {
+  const retryAfter = error.response?.headers?.["retry-after"];
+
+  if (retryAfter !== undefined && retryAfter !== null) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+    }
+    const date = Date.parse(String(retryAfter));
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_DELAY_MS);
+    }
+  }
+
+  const backoff = baseDelayMs * 2 ** attempt;
+  const jitter = Math.random() * baseDelayMs;
+  return Math.min(backoff + jitter, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Returns true if a failed request should be retried.
+ */
+function isRetryable(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUSES.has(error.response.status);
+  }
+  return error.code !== undefined && RETRYABLE_CODES.has(error.code);
+}
+
+/**
+ * Splits a multipart/mixed $batch response into its HTTP responses.
+ *
+ * @param {string} body - The raw response body.
+ * @param {string} contentType - The response Content-Type header, which carries the boundary.
+ * @returns {BatchResponsePart[]} The responses in the order the requests were sent.
+ * @throws Will throw an error if the boundary is missing.
+ */
+export function parseBatchResponse(
+  body: string,
+  contentType: string
+): BatchResponsePart[] {
+  const boundary = /boundary=("?)([^";]+)\1/i.exec(contentType)?.[2];
+  if (!boundary) {
+    throw new Error(`No boundary in $batch response type: ${contentType}`);
+  }
+
+  const parts: BatchResponsePart[] = [];
+  for (const chunk of body.split(`--${boundary}`).slice(1)) {
+    if (chunk.startsWith("--")) {
+      break;
+    }
+    // Each part is MIME headers, a blank line, then the embedded HTTP response.
+    const http = chunk.replace(/^\r?\n/, "").split(/\r?\n\r?\n/);
+    const [statusLine, ...headerLines] = (http[1] || "").split(/\r?\n/);
+    const status = Number(/HTTP\/1\.1 (\d{3})/.exec(statusLine)?.[1] || 0);
+    const headers: Record<string, string> = {};
+    for (const line of headerLines) {
+      const colon = line.indexOf(":");
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line
+          .slice(colon + 1)
+          .trim();
+      }
+    }
+
+    const text = http.slice(2).join("\n\n").trim();
+    let parsed: any = text;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      // Leave non-JSON bodies (e.g., plain-text errors) as text.
+    }
+    parts.push({ status, headers, body: parsed });
+  }
+
+  return parts;
+}
+
+/**
+ * Creates a Dataverse Web API client that adds the standard OData headers, applies a request timeout,
+ * retries throttled (429) and transient (5xx, network) failures, and follows "@odata.nextLink" paging.
+ * A token is requested from the provider for every request; a 401 forces one token refresh and retry.
+ *
+ * @param {DataverseClientOptions} options - The base URL, token and retry settings.
+ * @returns {DataverseClient} The client.
+ */
+export function createDataverseClient(
+  options: DataverseClientOptions
+): DataverseClient {
+  const {
+    baseUrl,
+    tokenProvider,
+    maxRetries = 5,
+    timeoutMs = 120000,
+    retryBaseDelayMs = 1000,
+    adapter,
+  } = options;
+
+  const http: AxiosInstance = axios.create({ timeout: timeoutMs, adapter });
+
+  const defaultHeaders: Record<string, string> = {
+    Accept: "application/json",
+    "OData-Version": "4.0",
+    "OData-MaxVersion": "4.0",
+  };
+
+  function resolveUrl(pathOrUrl: string): string {
+    if (/^https?:\/\//i.test(pathOrUrl)) {
+      return pathOrUrl;
+    }
+    return `${baseUrl.replace(/\/+$/, "")}/${pathOrUrl.replace(/^\/+/, "")}`;
+  }
+
+  /**
+   * Sends a request with the auth header, retrying throttled and transient failures.
+   */
+  async function send(
+    method: "get" | "post",
+    url: string,
+    headers: Record<string, string>,
+    body?: string
+  ) {
+    let refreshedToken = false;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const accessToken = await tokenProvider.getToken();
+        return await http.request({
+          method,
+          url,
+          data: body,
+          // $batch responses are multipart text, not JSON.
+          responseType: method === "post" ? "text" : "json",
+          headers: {
+            ...defaultHeaders,
+            Authorization: `Bearer ${accessToken}`,
+            ...headers,
+          },
+        });
+      } catch (error: any) {
+        if (
+          axios.isAxiosError(error) &&
+          error.response?.status === 401 &&
+          !refreshedToken
+        ) {
+          refreshedToken = true;
+          attempt--;
+          await tokenProvider.getToken(true);
+          continue;
+        }
+        if (!axios.isAxiosError(error) || !isRetryable(error)) {
+          throw error;
+        }
+        if (attempt >= maxRetries) {
+          console.error(`Giving up on ${url} after ${attempt + 1} attempts.`);
+          throw error;
+        }
+
+        const delay = getRetryDelay(error, attempt, retryBaseDelayMs);
+        console.warn(
+          `Request failed (${
+            error.response?.status ?? error.code
+          }); retrying in ${Math.round(delay / 1000)}s: ${url}`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
+  async function get<T = any>(
+    pathOrUrl: string,
+    headers: Record<string, string> = {}
+  ): Promise<T> {
+    const response = await send("get", resolveUrl(pathOrUrl), headers);
+    return response.data;
+  }
+
+  async function batch<T = any>(
+    requests: BatchRequest[]
+  ): Promise<PromiseSettledResult<T>[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const boundary = `batch_${crypto.randomUUID()}`;
+    const body = [
+      ...requests.map((request) =>
+        [
+          `--${boundary}`,
+          "Content-Type: application/http",
+          "Content-Transfer-Encoding: binary",
+          "",
+          // The request line cannot contain spaces, e.g. from "$filter=name eq 'x'".
+          `GET ${new URL(resolveUrl(request.path)).href} HTTP/1.1`,
+          ...Object.entries({ ...defaultHeaders, ...request.headers }).map(
+            ([name, value]) => `${name}: ${value}`
+          ),
+          "",
+          "",
+        ].join("\r\n")
+      ),
+      `--${boundary}--`,
+      "",
+    ].join("");
+
+    const response = await send(
+      "post",
+      resolveUrl("$batch"),
+      {
+        "Content-Type": `multipart/mixed; boundary=${boundary}`,
+      },
+      body
+    );
+    const parts = parseBatchResponse(
+      String(response.data),
+      String(response.headers["content-type"] || "")
+    );
+    if (parts.length !== requests.length) {
+      throw new Error(
+        `$batch returned ${parts.length} responses for ${requests.length} requests.`
+      );
+    }
+
+    // Each part settles on its own, so one failed request does not fail the others.
+    return Promise.allSettled(
+      parts.map(async (part, index) => {
+        if (part.status >= 200 && part.status < 300) {
+          return part.body as T;
+        }
+        if (RETRYABLE_STATUSES.has(part.status)) {
+          return get<T>(requests[index].path, requests[index].headers);
+        }
+        const error: any = new Error(
+          `Request failed with status code ${part.status}: ${requests[index].path}`
+        );
+        error.response = { status: part.status, data: part.body };
+        throw error;
+      })
+    );
+  }
+
+  async function getAll<T = any>(
+    pathOrUrl: string,
+    headers: Record<string, string> = {}
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let nextLink: string | null = pathOrUrl;
+
+    while (nextLink) {
+      const data: any = await get(nextLink, headers);
+      results.push(...(data.value || []));
+      nextLink = data["@odata.nextLink"] || null;
+    }
+
+    return results;
+  }
+
+  return { baseUrl, get, getAll, batch };
+}
+
+/**
+ * Wraps a client so that GET requests issued in the same tick (e.g., by fetchers started together with
+ * Promise.all) are sent as one $batch. Paging links are queued the same way.
+ *
+ * @param {DataverseClient} client - The client that sends the batches.
+ * @param {number} [maxBatchSize=50] - The most requests sent in one $batch.
+ * @returns {DataverseClient} A client with the same interface.
+ */
+export function createBatchingClient(
+  client: DataverseClient,
+  maxBatchSize = 50
+): DataverseClient {
+  let queue: {
+    request: BatchRequest;
+    resolve: (value: any) => void;
+    reject: (reason: any) => void;
+  }[] = [];
+
+  async function flush() {
+    const pending = queue;
+    queue = [];
+
+    for (let start = 0; start < pending.length; start += maxBatchSize) {
+      const chunk = pending.slice(start, start + maxBatchSize);
+      if (chunk.length === 1) {
+        const [item] = chunk;
+        await client
+          .get(item.request.path, item.request.headers)
+          .then(item.resolve, item.reject);
+        continue;
+      }
+      try {
+        const results = await client.batch(chunk.map((item) => item.request));
+        // Only the requests that failed are rejected; the rest of the chunk still resolves.
+        chunk.forEach((item, index) => {
+          const result = results[index];
+          if (result.status === "fulfilled") {
+            item.resolve(result.value);
+          } else {
+            item.reject(result.reason);
+          }
+        });
+      } catch (error) {
+        // The $batch request itself failed, so none of its requests were answered.
+        chunk.forEach((item) => item.reject(error));
+      }
+    }
+  }
+
+  function get<T = any>(
+    pathOrUrl: string,
+    headers?: Record<string, string>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (queue.length === 0) {
+        setImmediate(flush);
+      }
+      queue.push({ request: { path: pathOrUrl, headers }, resolve, reject });
+    });
+  }
+
+  async function getAll<T = any>(
+    pathOrUrl: string,
+    headers?: Record<string, string>
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let nextLink: string | null = pathOrUrl;
+
+    while (nextLink) {
+      const data: any = await get(nextLink, headers);
+      results.push(...(data.value || []));
+      nextLink = data["@odata.nextLink"] || null;
+    }
+
+    return results;
+  }
+
+  return { baseUrl: client.baseUrl, get, getAll, batch: client.batch };
+}
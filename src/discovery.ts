@@ -0,0 +1,143 @@
+// src/discovery.ts
+
+import { DataverseClient } from "./dataverseClient";
+import {
+  EntityDefinition,
+  Selected,
+  Solution,
+  SolutionComponent,
+} from "./types/crm";
+
+/**
+ * How entities are selected in discovery mode. All given criteria must match.
+ */
+export interface DiscoveryCriteria {
+  /** Publisher prefixes (e.g., ["bam"]); an entity matches if its logical name starts with "<prefix>_". */
+  prefixes?: string[];
+  /** Only include custom entities. */
+  customOnly?: boolean;
+  /** The unique name of a solution whose entity components are included. */
+  solution?: string;
+}
+
+const DEFINITION_FIELDS = [
+  "LogicalName",
+  "SchemaName",
+  "MetadataId",
+  "IsCustomEntity",
+  "IsIntersect",
+] as const satisfies readonly (keyof EntityDefinition)[];
+
+/**
+ * The definition summary of an entity, as returned by fetchEntityDefinitions.
+ */
+export type EntityDefinitionSummary = Selected<
+  EntityDefinition,
+  typeof DEFINITION_FIELDS
+>;
+
+/**
+ * Fetches the definition summary (logical name, custom flag, intersect flag, metadata ID) of every entity in the org.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<EntityDefinitionSummary[]>} A promise that resolves to the entity definitions.
+ * @throws Will throw an error if the request fails.
+ */
+export async function fetchEntityDefinitions(
+  client: DataverseClient
+): Promise<EntityDefinitionSummary[]> {
+  return client.getAll<EntityDefinitionSummary>(
+    `EntityDefinitions?$select=${DEFINITION_FIELDS.join(",")}`
+  );
+}
+
+/**
+ * Fetches the metadata IDs of the entities that are components of a solution.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {string} uniqueName - The unique name of the solution.
+ * @returns {Promise<Set<string>>} A promise that resolves to the lower-cased entity metadata IDs.
+ * @throws Will throw an error if the solution does not exist or the request fails.
+ */
+export async function fetchSolutionEntityIds(
+  client: DataverseClient,
+  uniqueName: string
+): Promise<Set<string>> {
+  const solutions = await client.getAll<Pick<Solution, "solutionid">>(
+    `solutions?$select=solutionid&$filter=${encodeURIComponent(
+      `uniquename eq '${uniqueName.replace(/'/g, "''")}'`
+    )}`
+  );
+  if (solutions.length === 0) {
+    throw new Error(`Solution "${uniqueName}" not found.`);
+  }
+
+  // componenttype 1 = Entity; objectid is the entity's MetadataId.
+  const components = await client.getAll<Pick<SolutionComponent, "objectid">>(
+    `solutioncomponents?$select=objectid&$filter=${encodeURIComponent(
+      `_solutionid_value eq ${solutions[0].solutionid} and componenttype eq 1`
+    )}`
+  );
+
+  return new Set(
+    components.map((component) => component.objectid.toLowerCase())
+  );
+}
+
+/**
+ * Selects entities matching the discovery criteria. Intersect (many-to-many) entities are never included.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {DiscoveryCriteria} criteria - The prefix, custom-only and solution filters.
+ * @param {EntityDefinitionSummary[]} definitions - The definitions returned by fetchEntityDefinitions.
+ * @returns {Promise<string[]>} A promise that resolves to the matching logical names, sorted.
+ * @throws Will throw an error if the solution lookup fails.
+ */
+export async function discoverEntities(
+  client: DataverseClient,
+  criteria: DiscoveryCriteria,
+  definitions: EntityDefinitionSummary[]
+): Promise<string[]> {
+  const prefixes = (criteria.prefixes || []).map(
+    (prefix) => `${prefix.replace(/_$/, "").toLowerCase()}_`
+  );
+  const solutionIds = criteria.solution
+    ? await fetchSolutionEntityIds(client, criteria.solution)
+    : null;
+
+  return definitions
+    .filter((definition) => !definition.IsIntersect)
+    .filter(
+      (definition) =>
+        prefixes.length === 0 ||
+        prefixes.some((prefix) => definition.LogicalName.startsWith(prefix))
+    )
+    .filter((definition) => !criteria.customOnly || definition.IsCustomEntity)
+    .filter(
+      (definition) =>
+        !solutionIds || solutionIds.has(definition.MetadataId.toLowerCase())
+    )
+    .map((definition) => definition.LogicalName)
+    .sort();
+}
+
+/**
+ * Splits requested entity names into those that exist in the org and those that do not.
+ *
+ * @param {string[]} requested - The logical names asked for on the command line or in an entity file.
+ * @param {EntityDefinitionSummary[]} definitions - The definitions returned by fetchEntityDefinitions.
+ * @returns {{ known: string[]; unknown: string[] }} The names in their original order.
+ */
+export function validateEntityNames(
+  requested: string[],
+  definitions: EntityDefinitionSummary[]
+): { known: string[]; unknown: string[] } {
+  const names = new Set(
+    definitions.map((definition) => definition.LogicalName)
+  );
+
+  return {
+    known: requested.filter((name) => names.has(name)),
+    unknown: requested.filter((name) => !names.has(name)),
+  };
+}
@@ -0,0 +1,292 @@
+// src/docsSite.ts
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { displayValue, recordHeaders } from "./excel";
+import { EntitySheet, ProcessedEntity } from "./processEntity";
+
+export const DOCS_FORMATS = ["markdown", "html"] as const;
+
+export type DocsFormat = (typeof DOCS_FORMATS)[number];
+
+/**
+ * Sheet columns whose values name other entities (relationship ends and lookup targets); documented
+ * entities in these cells become links.
+ */
+const ENTITY_COLUMNS = ["Entity Ref.", "Referencing Entity", "Targets"];
+
+/**
+ * Returns the other entities an entity is related to, read from its relationship and lookup target columns.
+ *
+ * @param {ProcessedEntity} entity - The entity and its built sheets.
+ * @returns {string[]} The related entity logical names, sorted, excluding the entity itself.
+ */
+export function relatedEntities(entity: ProcessedEntity): string[] {
+  const related = new Set<string>();
+
+  for (const sheet of entity.sheets) {
+    for (const record of sheet.records) {
+      for (const column of ENTITY_COLUMNS) {
+        for (const name of String(record[column] ?? "").split(",")) {
+          if (name.trim()) {
+            related.add(name.trim());
+          }
+        }
+      }
+    }
+  }
+  related.delete(entity.metadata.entityName);
+
+  return Array.from(related).sort();
+}
+
+function pageName(entityName: string, format: DocsFormat): string {
+  return `${entityName}.${format === "html" ? "html" : "md"}`;
+}
+
+function anchor(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders links in one output format; entities without a page are rendered as plain text.
+ */
+function renderer(format: DocsFormat, documented: Set<string>) {
+  const escape = format === "html" ? escapeHtml : escapeMarkdown;
+  const link = (text: string, href: string) =>
+    format === "html"
+      ? `<a href="${escapeHtml(href)}">${escapeHtml(text)}</a>`
+      : `[${escapeMarkdown(text)}](${href})`;
+  const entityLink = (name: string) =>
+    documented.has(name) ? link(name, pageName(name, format)) : escape(name);
+
+  const cell = (column: string, value: any) => {
+    const text = String(displayValue(value));
+    if (!ENTITY_COLUMNS.includes(column) || !text) {
+      return escape(text);
+    }
+    return text
+      .split(",")
+      .map((name) => entityLink(name.trim()))
+      .join(", ");
+  };
+
+  return { escape, link, entityLink, cell };
+}
+
+function markdownTable(
+  headers: string[],
+  rows: string[][],
+  escape: (value: string) => string
+): string[] {
+  return [
+    `| ${headers.map(escape).join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ];
+}
+
+function htmlTable(
+  headers: string[],
+  rows: string[][],
+  escape: (value: string) => string
+): string[] {
+  return [
+    "<table>",
+    `<thead><tr>${headers
+      .map((header) => `<th>${escape(header)}</th>`)
+      .join("")}</tr></thead>`,
+    "<tbody>",
+    ...rows.map(
+      (row) => `<tr>${row.map((value) => `<td>${value}</td>`).join("")}</tr>`
+    ),
+    "</tbody>",
+    "</table>",
+  ];
+}
+
+function htmlPage(title: string, body: string[]): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>",
+    "body { font-family: sans-serif; margin: 2em; }",
+    "table { border-collapse: collapse; margin-bottom: 2em; font-size: 0.9em; }",
+    "th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }",
+    "th { background: #f0f0f0; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders the page of one entity: related entities first, then one table per sheet.
+ */
+function renderEntityPage(
+  entity: ProcessedEntity,
+  format: DocsFormat,
+  documented: Set<string>
+): string {
+  const { escape, link, entityLink, cell } = renderer(format, documented);
+  const entityName = entity.metadata.entityName;
+  const related = relatedEntities(entity);
+  const indexPage = pageName("index", format);
+
+  const sheetRows = (sheet: EntitySheet) => {
+    const headers = recordHeaders(sheet.records);
+    const rows = sheet.records.map((record) =>
+      headers.map((header) => cell(header, record[header]))
+    );
+    return { headers, rows };
+  };
+
+  if (format === "html") {
+    const body = [
+      `<p>${link("Index", indexPage)}</p>`,
+      `<h1>${escape(entityName)}</h1>`,
+      `<p>${entity.sheets
+        .map((sheet) => link(sheet.title, `#${anchor(sheet.title)}`))
+        .join(" | ")}</p>`,
+      "<h2>Related entities</h2>",
+      related.length > 0
+        ? `<ul>${related
+            .map((name) => `<li>${entityLink(name)}</li>`)
+            .join("")}</ul>`
+        : "<p>None.</p>",
+    ];
+    for (const sheet of entity.sheets) {
+      const { headers, rows } = sheetRows(sheet);
+      body.push(`<h2 id="${anchor(sheet.title)}">${escape(sheet.title)}</h2>`);
+      body.push(
+        ...(rows.length > 0
+          ? htmlTable(headers, rows, escape)
+          : ["<p>None.</p>"])
+      );
+    }
+    return htmlPage(entityName, body);
+  }
+
+  const lines = [
+    `[Index](${indexPage})`,
+    "",
+    `# ${entityName}`,
+    "",
+    entity.sheets
+      .map((sheet) => `[${sheet.title}](#${anchor(sheet.title)})`)
+      .join(" | "),
+    "",
+    "## Related entities",
+    "",
+    ...(related.length > 0
+      ? related.map((name) => `- ${entityLink(name)}`)
+      : ["None."]),
+  ];
+  for (const sheet of entity.sheets) {
+    const { headers, rows } = sheetRows(sheet);
+    lines.push("", `## ${sheet.title}`, "");
+    lines.push(
+      ...(rows.length > 0 ? markdownTable(headers, rows, escape) : ["None."])
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Renders the index page: every entity with its record count per sheet and its related entities.
+ */
+function renderIndexPage(
+  entities: ProcessedEntity[],
+  format: DocsFormat,
+  documented: Set<string>
+): string {
+  const { escape, entityLink } = renderer(format, documented);
+  const titles = entities[0]?.sheets.map((sheet) => sheet.title) || [];
+  const headers = ["Entity", ...titles, "Related Entities"];
+
+  const rows = entities.map((entity) => [
+    entityLink(entity.metadata.entityName),
+    ...titles.map((title) =>
+      String(
+        entity.sheets.find((sheet) => sheet.title === title)?.records.length ??
+          ""
+      )
+    ),
+    relatedEntities(entity)
+      .filter((name) => documented.has(name))
+      .map(entityLink)
+      .join(", "),
+  ]);
+
+  if (format === "html") {
+    return htmlPage("Entities", [
+      "<h1>Entities</h1>",
+      ...htmlTable(headers, rows, escape),
+    ]);
+  }
+  return `${["# Entities", "", ...markdownTable(headers, rows, escape)].join(
+    "\n"
+  )}\n`;
+}
+
+/**
+ * Writes a static documentation site: an index page and one page per entity, cross-linked through relationship
+ * ends and lookup targets. Pages are rendered from the same sheet records as the workbooks.
+ *
+ * @param {ProcessedEntity[]} entities - The processed entities.
+ * @param {string} outputDir - The folder the site is written to.
+ * @param {DocsFormat} format - "markdown" (.md pages) or "html" (standalone .html pages).
+ * @returns {string[]} The paths of the written pages, index first.
+ * @throws Will throw an error if a page cannot be written.
+ */
+export function writeDocsSite(
+  entities: ProcessedEntity[],
+  outputDir: string,
+  format: DocsFormat
+): string[] {
+  const sorted = [...entities].sort((a, b) =>
+    a.metadata.entityName.localeCompare(b.metadata.entityName)
+  );
+  const documented = new Set(
+    sorted.map((entity) => entity.metadata.entityName)
+  );
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  const written: string[] = [];
+  const write = (name: string, content: string) => {
+    const outputPath = path.join(outputDir, name);
+    fs.writeFileSync(outputPath, content, "utf8");
+    written.push(outputPath);
+  };
+
+  write(pageName("index", format), renderIndexPage(sorted, format, documented));
+  for (const entity of sorted) {
+    write(
+      pageName(entity.metadata.entityName, format),
+      renderEntityPage(entity, format, documented)
+    );
+  }
+  console.log(`Wrote ${written.length} documentation pages to ${outputDir}`);
+
+  return written;
+}
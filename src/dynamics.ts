@@ -1,40 +1,254 @@
 // src/dynamics.ts
 
-import axios from "axios";
+import { DataverseClient } from "./dataverseClient";
+import { EntityDefinition } from "./types/crm";
 
 /**
- * Fetches data from a Microsoft Dynamics 365 entity.
+ * Options for reading table records.
+ */
+export interface FetchDataOptions {
+  /** The columns to return (Web API names, e.g., "_primarycontactid_value" for a lookup); all when omitted. */
+  select?: string[];
+  /** An OData $filter expression. */
+  filter?: string;
+  /** An OData $orderby expression. */
+  orderBy?: string;
+  /** An OData $expand expression (e.g., "primarycontactid($select=fullname)"). */
+  expand?: string;
+  /** A FetchXML query run instead of select, filter, orderBy and expand; paged with its paging cookie. */
+  fetchXml?: string;
+  /** Stop after this many records (default: every record). */
+  maxRecords?: number;
+  /** The page size requested through the Prefer header or the FetchXML count (default: 5000, the Web API maximum). */
+  pageSize?: number;
+  /** Keep each value's formatted text (option labels, lookup names) as a FormattedValue annotation. */
+  formattedValues?: boolean;
+}
+
+/** The annotation Dataverse puts the display text of a value in (option labels, lookup names, dates). */
+export const FORMATTED_VALUE = "OData.Community.Display.V1.FormattedValue";
+const PAGING_COOKIE = "Microsoft.Dynamics.CRM.fetchxmlpagingcookie";
+const MORE_RECORDS = "Microsoft.Dynamics.CRM.morerecords";
+
+/**
+ * Returns the formatted text Dataverse annotated a record's value with, if any.
  *
- * @param {string} entity - The name of the entity to fetch (e.g., "accounts", "contacts").
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @param {string} dynamicsUrl - The base URL of the Dynamics 365 instance (e.g., "https://org0b26dba9.api.crm.dynamics.com/api/data/v9.1").
- * @returns {Promise<any[]>} A promise that resolves to an array of records from the specified entity.
- * @throws Will throw an error if the request fails.
+ * @param {Record<string, any>} record - A record read with formattedValues.
+ * @param {string} key - The property name (e.g., "statecode", "_primarycontactid_value").
+ * @returns {string | undefined} The formatted value, or undefined when the property has none.
  */
-export async function fetchData(
-  entity: string,
-  accessToken: string,
-  dynamicsUrl: string
-): Promise<any[]> {
-  const url = `${dynamicsUrl}/${entity}`;
+export function formattedValue(
+  record: Record<string, any>,
+  key: string
+): string | undefined {
+  return record[`${key}@${FORMATTED_VALUE}`];
+}
 
-  try {
-    const response = await axios.get(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "OData-Version": "4.0",
-        Accept: "application/json",
-      },
-    });
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Sets the page, count and paging cookie attributes of a FetchXML query's fetch element.
+ * Queries with a top attribute cannot be paged and are returned unchanged.
+ */
+function pageFetchXml(
+  fetchXml: string,
+  page: number,
+  pageSize: number,
+  pagingCookie?: string
+): string {
+  return fetchXml.replace(/<fetch\b([^>]*)>/, (element, attributes: string) => {
+    if (/\stop\s*=/.test(attributes)) {
+      return element;
+    }
+    let paged = attributes.replace(
+      /\s(page|paging-cookie)\s*=\s*("[^"]*"|'[^']*')/g,
+      ""
+    );
+    if (!/\scount\s*=/.test(paged)) {
+      paged += ` count="${pageSize}"`;
+    }
+    paged += ` page="${page}"`;
+    if (pagingCookie) {
+      paged += ` paging-cookie="${escapeXmlAttribute(pagingCookie)}"`;
+    }
+    return `<fetch${paged}>`;
+  });
+}
 
-    console.log(`Fetched ${entity} data:`, response.data);
+/**
+ * Reads the paging cookie for the next page out of the fetchxmlpagingcookie annotation, where it is
+ * URL-encoded twice inside a <cookie pagingcookie="..."> element.
+ */
+function nextPagingCookie(annotation: unknown): string | undefined {
+  const match = /pagingcookie="([^"]*)"/.exec(String(annotation ?? ""));
+  return match ? decodeURIComponent(decodeURIComponent(match[1])) : undefined;
+}
+
+/**
+ * Reads the records of a Microsoft Dynamics 365 table one page at a time, following "@odata.nextLink"
+ * (or the FetchXML paging cookie) until every record (or maxRecords) has been read, so callers can handle
+ * large tables without holding them in memory.
+ *
+ * @param {string} entitySetName - The entity set to read (e.g., "accounts", "contacts").
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {FetchDataOptions} [options] - The query, record cap and whether to keep formatted values.
+ * @returns {AsyncGenerator<Record<string, any>[]>} The pages of records, with their OData annotations.
+ * @throws Will throw an error if a request fails.
+ */
+export async function* fetchPages(
+  entitySetName: string,
+  client: DataverseClient,
+  options: FetchDataOptions = {}
+): AsyncGenerator<Record<string, any>[]> {
+  const { select, filter, orderBy, expand, fetchXml } = options;
+  const maxRecords = options.maxRecords ?? Infinity;
+  const pageSize = Math.min(options.pageSize ?? 5000, maxRecords);
+
+  const annotations = [
+    ...(options.formattedValues ? [FORMATTED_VALUE] : []),
+    ...(fetchXml ? [PAGING_COOKIE, MORE_RECORDS] : []),
+  ];
+  const headers = {
+    Prefer: [
+      `odata.maxpagesize=${pageSize}`,
+      ...(annotations.length > 0
+        ? [`odata.include-annotations="${annotations.join(",")}"`]
+        : []),
+    ].join(","),
+  };
+
+  let read = 0;
+  const take = (records: Record<string, any>[]) => {
+    const page = records.slice(0, maxRecords - read);
+    read += page.length;
+    return page;
+  };
+
+  if (fetchXml) {
+    let pagingCookie: string | undefined;
+    for (let page = 1; read < maxRecords; page++) {
+      const data: any = await client.get(
+        `${entitySetName}?fetchXml=${encodeURIComponent(
+          pageFetchXml(fetchXml, page, pageSize, pagingCookie)
+        )}`,
+        headers
+      );
+      yield take(data.value || []);
+      if (!data[`@${MORE_RECORDS}`]) {
+        return;
+      }
+      pagingCookie = nextPagingCookie(data[`@${PAGING_COOKIE}`]);
+    }
+    return;
+  }
 
-    return response.data.value || [];
+  const query = [
+    select && select.length > 0 ? `$select=${select.join(",")}` : "",
+    filter ? `$filter=${encodeURIComponent(filter)}` : "",
+    orderBy ? `$orderby=${encodeURIComponent(orderBy)}` : "",
+    expand ? `$expand=${encodeURIComponent(expand)}` : "",
+  ].filter(Boolean);
+  let nextLink: string | undefined = query.length
+    ? `${entitySetName}?${query.join("&")}`
+    : entitySetName;
+
+  while (nextLink && read < maxRecords) {
+    const data: any = await client.get(nextLink, headers);
+    yield take(data.value || []);
+    nextLink = data["@odata.nextLink"];
+  }
+}
+
+/**
+ * Fetches records from a Microsoft Dynamics 365 table, following "@odata.nextLink" until every record
+ * (or maxRecords) has been read.
+ *
+ * @param {string} entitySetName - The entity set to fetch (e.g., "accounts", "contacts").
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {FetchDataOptions} [options] - The query and record cap.
+ * @returns {Promise<Record<string, any>[]>} A promise that resolves to the records, without OData annotations.
+ * @throws Will throw an error if the request fails.
+ */
+export async function fetchData(
+  entitySetName: string,
+  client: DataverseClient,
+  options: FetchDataOptions = {}
+): Promise<Record<string, any>[]> {
+  const records: Record<string, any>[] = [];
+  try {
+    for await (const page of fetchPages(entitySetName, client, options)) {
+      records.push(...page);
+    }
   } catch (error: any) {
     console.error(
-      `Error fetching ${entity}:`,
+      `Error fetching ${entitySetName}:`,
       error.response?.data || error.message
     );
     throw error;
   }
+
+  return records.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).filter(([key]) => !key.includes("@"))
+    )
+  );
+}
+
+/**
+ * Looks up the entity set name the Web API serves an entity's records under (e.g., "accounts" for account).
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<string>} A promise that resolves to the entity set name.
+ * @throws Will throw an error if the entity does not exist or the request fails.
+ */
+export async function fetchEntitySetName(
+  entityName: string,
+  client: DataverseClient
+): Promise<string> {
+  const { EntitySetName } = await client.get<
+    Pick<EntityDefinition, "EntitySetName">
+  >(`EntityDefinitions(LogicalName='${entityName}')?$select=EntitySetName`);
+  return EntitySetName;
+}
+
+/**
+ * Runs an aggregate FetchXML query against a table and returns its result rows.
+ * Dataverse refuses aggregates over more than 50,000 records; see isAggregateLimitError.
+ *
+ * @param {string} entitySetName - The entity set the query runs against (e.g., "accounts").
+ * @param {string} fetchXml - The FetchXML query, with aggregate="true" on the fetch element.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<Record<string, any>[]>} A promise that resolves to the rows, keyed by attribute alias.
+ * @throws Will throw an error if the query fails.
+ */
+export async function fetchAggregate(
+  entitySetName: string,
+  fetchXml: string,
+  client: DataverseClient
+): Promise<Record<string, any>[]> {
+  const data = await client.get(
+    `${entitySetName}?fetchXml=${encodeURIComponent(fetchXml)}`,
+    {
+      Prefer: `odata.include-annotations="${FORMATTED_VALUE}"`,
+    }
+  );
+  return data.value || [];
+}
+
+/**
+ * Returns whether a request failed because an aggregate query covered more records than Dataverse allows.
+ */
+export function isAggregateLimitError(error: any): boolean {
+  const body = error?.response?.data?.error;
+  return (
+    String(body?.code).toLowerCase() === "0x8004e023" ||
+    /AggregateQueryRecordLimit/i.test(String(body?.message || ""))
+  );
 }
@@ -0,0 +1,365 @@
+// src/entityAutomation.ts
+
+import { DataverseClient } from "./dataverseClient";
+import { FORMATTED_VALUE, formattedValue } from "./dynamics";
+import {
+  PluginType,
+  SdkMessage,
+  SdkMessageProcessingStep,
+  Selected,
+  Workflow,
+} from "./types/crm";
+
+const PROCESS_FIELDS = [
+  "workflowid",
+  "name",
+  "description",
+  "primaryentity",
+  "category",
+  "type",
+  "mode",
+  "statecode",
+  "ismanaged",
+  "uniquename",
+  "triggeroncreate",
+  "triggerondelete",
+  "triggeronupdateattributelist",
+  "ondemand",
+  "subprocess",
+  "clientdata",
+] as const satisfies readonly (keyof Workflow)[];
+
+/**
+ * A process (workflow, action, business process flow or flow) as returned by fetchEntityProcesses.
+ */
+export type AutomationProcess = Selected<Workflow, typeof PROCESS_FIELDS>;
+
+const STEP_FIELDS = [
+  "sdkmessageprocessingstepid",
+  "name",
+  "description",
+  "stage",
+  "mode",
+  "rank",
+  "filteringattributes",
+  "statecode",
+  "ismanaged",
+  "asyncautodelete",
+  "_eventhandler_value",
+] as const satisfies readonly (keyof SdkMessageProcessingStep)[];
+
+/**
+ * A plug-in step as returned by fetchEntityPluginSteps, with its message and plug-in type expanded.
+ */
+export type PluginStep = Selected<
+  SdkMessageProcessingStep,
+  typeof STEP_FIELDS
+> & {
+  sdkmessageid: Pick<SdkMessage, "name"> | null;
+  plugintypeid: Pick<PluginType, "typename" | "assemblyname"> | null;
+};
+
+const processKinds: Record<number, string> = {
+  0: "Classic Workflow",
+  1: "Dialog",
+  2: "Business Rule",
+  3: "Custom Action",
+  4: "Business Process Flow",
+  5: "Cloud Flow",
+  6: "Desktop Flow",
+  7: "AI Flow",
+};
+
+const processStates: Record<number, string> = {
+  0: "Draft",
+  1: "Activated",
+  2: "Suspended",
+};
+
+const processModes: Record<number, string> = {
+  0: "Background",
+  1: "Real-time",
+};
+
+const stepStages: Record<number, string> = {
+  10: "Pre-validation",
+  20: "Pre-operation",
+  30: "Main Operation",
+  40: "Post-operation",
+};
+
+const stepModes: Record<number, string> = {
+  0: "Synchronous",
+  1: "Asynchronous",
+};
+
+/** The "subscriptionRequest/message" values of the Dataverse flow trigger. */
+const flowMessages: Record<number, string> = {
+  1: "Create",
+  2: "Delete",
+  3: "Update",
+  4: "Create or Update",
+  5: "Create or Delete",
+  6: "Update or Delete",
+  7: "Create, Update or Delete",
+};
+
+const flowScopes: Record<number, string> = {
+  1: "User",
+  2: "Business Unit",
+  3: "Parent: Child Business Unit",
+  4: "Organization",
+};
+
+/**
+ * A cloud flow trigger read from the flow definition.
+ */
+interface FlowTrigger {
+  description: string;
+  /** "Automated", "Instant" or "Scheduled". */
+  mode: string;
+  /** Dataverse triggers: the table and the attributes an update must change. */
+  entity?: string;
+  filteringAttributes?: string;
+}
+
+/**
+ * Reads the triggers of a cloud flow from its clientdata; a definition that cannot be parsed has none.
+ */
+function flowTriggers(clientdata: string | null): FlowTrigger[] {
+  let triggers: Record<string, any>;
+  try {
+    triggers =
+      JSON.parse(clientdata || "{}")?.properties?.definition?.triggers || {};
+  } catch {
+    return [];
+  }
+
+  return Object.values(triggers).map((trigger: any): FlowTrigger => {
+    const parameters = trigger?.inputs?.parameters || {};
+    const entity = parameters["subscriptionRequest/entityname"];
+    if (entity) {
+      const message =
+        flowMessages[Number(parameters["subscriptionRequest/message"])] ||
+        "Change";
+      const scope =
+        flowScopes[Number(parameters["subscriptionRequest/scope"])] || "";
+      return {
+        description: `Dataverse: ${message}${scope ? ` (${scope})` : ""}`,
+        mode: "Automated",
+        entity,
+        filteringAttributes:
+          parameters["subscriptionRequest/filteringattributes"] || undefined,
+      };
+    }
+
+    const type = String(trigger?.type || "");
+    return {
+      description: trigger?.kind ? `${type} (${trigger.kind})` : type,
+      mode:
+        type === "Recurrence"
+          ? "Scheduled"
+          : type === "Request"
+          ? "Instant"
+          : "Automated",
+    };
+  });
+}
+
+/**
+ * Fetches the processes that run on an entity: classic workflows, dialogs, custom actions, business process
+ * flows and flows whose primary entity it is, plus cloud flows with a Dataverse trigger on it (those are
+ * usually stored without a primary entity). Only definitions are returned, not activations or templates;
+ * business rules are fetched by fetchEntityBusinessRules.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<AutomationProcess[]>} A promise that resolves to the processes.
+ * @throws Will throw an error if a request fails.
+ */
+export async function fetchEntityProcesses(
+  entityName: string,
+  client: DataverseClient
+): Promise<AutomationProcess[]> {
+  const query = (filter: string) =>
+    `workflows?$filter=${encodeURIComponent(
+      filter
+    )}&$select=${PROCESS_FIELDS.join(",")}`;
+
+  const [processes, flows] = await Promise.all([
+    client.getAll<AutomationProcess>(
+      query(`primaryentity eq '${entityName}' and type eq 1 and category ne 2`)
+    ),
+    client.getAll<AutomationProcess>(
+      query(
+        `category eq 5 and type eq 1 and primaryentity ne '${entityName}' and contains(clientdata,'${entityName}')`
+      )
+    ),
+  ]);
+
+  // The clientdata match is textual; keep the flows whose trigger is really on this entity.
+  return [
+    ...processes,
+    ...flows.filter((flow) =>
+      flowTriggers(flow.clientdata).some(
+        (trigger) => trigger.entity === entityName
+      )
+    ),
+  ];
+}
+
+/**
+ * Fetches the plug-in and service endpoint steps registered on an entity's messages, leaving out the hidden
+ * steps Dataverse registers for itself.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<PluginStep[]>} A promise that resolves to the steps, with their handler names annotated.
+ * @throws Will throw an error if the request fails.
+ */
+export async function fetchEntityPluginSteps(
+  entityName: string,
+  client: DataverseClient
+): Promise<PluginStep[]> {
+  const filter = `sdkmessagefilterid/primaryobjecttypecode eq '${entityName}' and ishidden/Value eq false`;
+
+  return client.getAll<PluginStep>(
+    `sdkmessageprocessingsteps?$select=${STEP_FIELDS.join(
+      ","
+    )}&$expand=sdkmessageid($select=name),plugintypeid($select=typename,assemblyname)&$filter=${encodeURIComponent(
+      filter
+    )}`,
+    { Prefer: `odata.include-annotations="${FORMATTED_VALUE}"` }
+  );
+}
+
+/**
+ * Returns what starts a process: the events of a classic workflow, the message of an action, or the triggers
+ * of a cloud flow.
+ */
+function processTrigger(process: AutomationProcess): string {
+  switch (process.category) {
+    case 0:
+      return [
+        process.triggeroncreate ? "Create" : "",
+        process.triggeronupdateattributelist ? "Update" : "",
+        process.triggerondelete ? "Delete" : "",
+        process.ondemand ? "On demand" : "",
+        process.subprocess ? "Child process" : "",
+      ]
+        .filter(Boolean)
+        .join("; ");
+    case 3:
+      return process.uniquename ? `Message: ${process.uniquename}` : "";
+    case 5:
+      return flowTriggers(process.clientdata)
+        .map((trigger) => trigger.description)
+        .join("; ");
+    default:
+      return "";
+  }
+}
+
+/**
+ * Transforms a process into a row of the "Automation" sheet.
+ *
+ * @param {AutomationProcess} process - A process returned by fetchEntityProcesses.
+ * @returns {Record<string, any>} The sheet row.
+ */
+export function transformProcess(
+  process: AutomationProcess
+): Record<string, any> {
+  const triggers =
+    process.category === 5 ? flowTriggers(process.clientdata) : [];
+
+  return {
+    Kind: processKinds[process.category] || "",
+    Name: process.name,
+    Trigger: processTrigger(process),
+    Message: process.category === 3 ? process.uniquename || "" : "",
+    Stage: "",
+    Mode:
+      process.category === 5
+        ? Array.from(new Set(triggers.map((trigger) => trigger.mode))).join(
+            ", "
+          )
+        : processModes[process.mode] || "",
+    Rank: "",
+    "Filtering Attributes":
+      process.category === 5
+        ? triggers
+            .map((trigger) => trigger.filteringAttributes)
+            .filter(Boolean)
+            .join("; ")
+        : process.triggeronupdateattributelist || "",
+    Handler: "",
+    Assembly: "",
+    State: processStates[process.statecode] || "",
+    Managed: process.ismanaged,
+    Description: process.description || "",
+  };
+}
+
+/**
+ * Transforms a plug-in step into a row of the "Automation" sheet.
+ *
+ * @param {PluginStep} step - A step returned by fetchEntityPluginSteps.
+ * @returns {Record<string, any>} The sheet row.
+ */
+export function transformPluginStep(step: PluginStep): Record<string, any> {
+  return {
+    Kind: "Plug-in Step",
+    Name: step.name,
+    Trigger: "",
+    Message: step.sdkmessageid?.name || "",
+    Stage: stepStages[step.stage] || "",
+    Mode: stepModes[step.mode] || "",
+    Rank: step.rank,
+    "Filtering Attributes": step.filteringattributes || "",
+    Handler:
+      step.plugintypeid?.typename ||
+      formattedValue(step, "_eventhandler_value") ||
+      "",
+    Assembly: step.plugintypeid?.assemblyname || "",
+    State: step.statecode === 0 ? "Enabled" : "Disabled",
+    Managed: step.ismanaged,
+    Description: step.description || "",
+  };
+}
+
+/**
+ * Builds the "Automation" sheet records: the entity's processes by kind and name, then its plug-in steps in
+ * execution order (message, stage, rank).
+ *
+ * @param {string} entityName - The name of the entity whose automation is being added.
+ * @param {AutomationProcess[]} processes - The processes returned by fetchEntityProcesses.
+ * @param {PluginStep[]} pluginSteps - The steps returned by fetchEntityPluginSteps.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildAutomationRecords(
+  entityName: string,
+  processes: AutomationProcess[],
+  pluginSteps: PluginStep[]
+): Record<string, any>[] {
+  const processRows = processes
+    .map(transformProcess)
+    .sort(
+      (a, b) => a.Kind.localeCompare(b.Kind) || a.Name.localeCompare(b.Name)
+    );
+  const stepRows = [...pluginSteps]
+    .sort(
+      (a, b) =>
+        (a.sdkmessageid?.name || "").localeCompare(
+          b.sdkmessageid?.name || ""
+        ) ||
+        a.stage - b.stage ||
+        a.rank - b.rank
+    )
+    .map(transformPluginStep);
+
+  console.log(
+    `Adding ${processRows.length} processes and ${stepRows.length} plug-in steps for ${entityName}.`
+  );
+
+  return [...processRows, ...stepRows];
+}
@@ -1,71 +1,59 @@
 // src/entityBusinessRules.ts
 
-import axios, { AxiosResponse } from "axios";
-import { parseStringPromise } from "xml2js";
-import * as ExcelJS from "exceljs";
+import { DataverseClient } from "./dataverseClient";
 
-import { BusinessRule } from "./types/crm"; // Assuming you have a types file for your interfaces
+import { BusinessRule, Selected, Workflow } from "./types/crm";
+
+/**
+ * The workflow columns a business rule is built from.
+ */
+const WORKFLOW_FIELDS = [
+  "name",
+  "category",
+  "type",
+  "scope",
+  "ismanaged",
+  "iscustomizable",
+  "statecode",
+  "statuscode",
+  "xaml",
+] as const satisfies readonly (keyof Workflow)[];
 
 /**
  * Fetches business rules (category=2) for a given entity from Microsoft Dynamics 365.
+ * The entity's other processes are fetched by fetchEntityProcesses.
  *
  * @param {string} entityName - The name of the entity to fetch business rules for.
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @param {string} baseUrl - The base URL of the Dynamics 365 instance.
+ * @param {DataverseClient} client - The Dataverse Web API client.
  * @returns {Promise<BusinessRule[]>} A promise that resolves to an array of business rules.
  * @throws Will throw an error if the request fails.
  */
 export async function fetchEntityBusinessRules(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
+  client: DataverseClient
 ): Promise<BusinessRule[]> {
-  const filter = `primaryentity eq '${entityName}'`;
-  const selectFields = [
-    "name",
-    "category",
-    "type",
-    "scope",
-    "ismanaged",
-    "iscustomizable/Value",
-    "statecode",
-    "statuscode",
-    // "xaml",
-  ].join(",");
+  const filter = `primaryentity eq '${entityName}' and category eq 2`;
 
-  const url = `${baseUrl}/workflows?$filter=${encodeURIComponent(
+  const url = `workflows?$filter=${encodeURIComponent(
     filter
-  )}&$select=${selectFields}`;
-
-  const response: AxiosResponse<any> = await axios.get(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      Accept: "application/json",
-    },
-  });
-
-  if (response.status !== 200) {
-    throw new Error(`Failed to fetch business rules: ${response.statusText}`);
-  }
+  )}&$select=${WORKFLOW_FIELDS.join(",")}`;
 
-  if (!response.data || !response.data.value) {
-    return [];
-  }
-
-  console.log(response.data.value[0].xaml);
+  const rules = await client.getAll<Selected<Workflow, typeof WORKFLOW_FIELDS>>(
+    url
+  );
 
-  return (response.data.value || []).map((rule: any) => ({
+  return rules.map((rule) => ({
     name: rule.name,
-    // primaryentity: rule.primaryentity,
+    primaryentity: entityName,
     // clientdata: rule.clientdata,
     scope: rule.scope,
     ismanaged: rule.ismanaged,
-    iscustomizable: rule["iscustomizable/Value"] ?? false,
+    iscustomizable: rule.iscustomizable?.Value ?? false,
     statecode: rule.statecode,
     statuscode: rule.statuscode,
     type: rule.type,
     category: rule.category,
-    // xaml: rule.xaml,
+    xaml: rule.xaml,
   }));
 }
 
@@ -122,44 +110,21 @@ export function transformBusinessRule(rule: BusinessRule): Record<string, any> {
     "Status Code": businessRuleStatusCode[rule.statuscode] || "",
     Category: businessRuleCategory[rule.category] || "",
     Type: businessRuleType[rule.type] || "",
-    // Logic: parseBusinessRuleXaml(rule.xaml) || "No XAML provided",
   };
 }
 
 /**
- * Adds a worksheet for business rules to the given Excel workbook.
+ * Builds the "Business Rules" sheet records: one transformed record per rule.
  *
- * @param {ExcelJS.Workbook} workbook - The Excel workbook to add the worksheet to.
  * @param {string} entityName - The name of the entity whose business rules are being added.
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @param {string} baseUrl - The base URL of the Dynamics 365 instance.
- * @returns {Promise<void>} A promise that resolves when the worksheet has been added.
- * @throws Will throw an error if fetching business rules fails.
+ * @param {BusinessRule[]} rules - The rules returned by fetchEntityBusinessRules.
+ * @returns {Record<string, any>[]} The sheet records.
  */
-export async function addBusinessRulesSheet(
-  workbook: ExcelJS.Workbook,
+export function buildBusinessRulesRecords(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
-): Promise<void> {
-  const rules = await fetchEntityBusinessRules(
-    entityName,
-    accessToken,
-    baseUrl
-  );
-  console.log(`Fetched ${rules.length} Business Rules for ${entityName}`);
-
-  const transformed = rules.map(transformBusinessRule);
-  const worksheet = workbook.addWorksheet("Business Rules");
-
-  if (transformed.length > 0) {
-    worksheet.columns = Object.keys(transformed[0]).map((key) => ({
-      header: key,
-      key,
-    }));
+  rules: BusinessRule[]
+): Record<string, any>[] {
+  console.log(`Adding ${rules.length} Business Rules for ${entityName}`);
 
-    for (const row of transformed) {
-      worksheet.addRow(row);
-    }
-  }
+  return rules.map(transformBusinessRule);
 }
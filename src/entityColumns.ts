@@ -1,71 +1,233 @@
 // src/entityColumns.ts
 
-import axios, { AxiosResponse } from "axios";
-import * as ExcelJS from "exceljs";
+import { ColumnStats, columnStatFields } from "./columnStats";
+import { DataverseClient } from "./dataverseClient";
+import { formatOptions, localizedLabel } from "./labels";
+import {
+  Attribute,
+  AttributeCastDetails,
+  AttributeMetadata,
+  BigIntAttributeMetadata,
+  BooleanAttributeMetadata,
+  DateTimeAttributeMetadata,
+  DecimalAttributeMetadata,
+  DoubleAttributeMetadata,
+  IntegerAttributeMetadata,
+  LookupAttributeMetadata,
+  MemoAttributeMetadata,
+  MoneyAttributeMetadata,
+  MultiSelectPicklistAttributeMetadata,
+  PicklistAttributeMetadata,
+  StateAttributeMetadata,
+  StatusAttributeMetadata,
+  StringAttributeMetadata,
+} from "./types/crm";
+
+interface AttributeTypeDetails {
+  cast: string;
+  select: string[];
+  expand?: string;
+}
+
+/**
+ * Describes one attribute metadata cast; the selected and expanded properties are checked against its type.
+ */
+function castDetails<T extends AttributeMetadata>(
+  cast: string,
+  select: Exclude<keyof T, keyof AttributeMetadata>[],
+  expand?: Exclude<keyof T, keyof AttributeMetadata>[]
+): AttributeTypeDetails {
+  return {
+    cast,
+    select: select.map(String),
+    expand: expand?.map(String).join(","),
+  };
+}
+
+/**
+ * The type-specific properties read from each attribute metadata cast, merged into the base attribute records.
+ */
+const attributeTypeDetails: AttributeTypeDetails[] = [
+  castDetails<PicklistAttributeMetadata>(
+    "PicklistAttributeMetadata",
+    ["FormulaDefinition", "SourceType"],
+    ["OptionSet", "GlobalOptionSet"]
+  ),
+  castDetails<MultiSelectPicklistAttributeMetadata>(
+    "MultiSelectPicklistAttributeMetadata",
+    ["FormulaDefinition", "SourceType"],
+    ["OptionSet", "GlobalOptionSet"]
+  ),
+  castDetails<StatusAttributeMetadata>(
+    "StatusAttributeMetadata",
+    [],
+    ["OptionSet"]
+  ),
+  castDetails<StateAttributeMetadata>(
+    "StateAttributeMetadata",
+    [],
+    ["OptionSet"]
+  ),
+  castDetails<BooleanAttributeMetadata>(
+    "BooleanAttributeMetadata",
+    ["FormulaDefinition", "SourceType"],
+    ["OptionSet"]
+  ),
+  castDetails<LookupAttributeMetadata>("LookupAttributeMetadata", ["Targets"]),
+  castDetails<StringAttributeMetadata>("StringAttributeMetadata", [
+    "MaxLength",
+    "Format",
+    "FormulaDefinition",
+    "SourceType",
+  ]),
+  castDetails<MemoAttributeMetadata>("MemoAttributeMetadata", [
+    "MaxLength",
+    "Format",
+  ]),
+  castDetails<DecimalAttributeMetadata>("DecimalAttributeMetadata", [
+    "Precision",
+    "MinValue",
+    "MaxValue",
+    "FormulaDefinition",
+    "SourceType",
+  ]),
+  castDetails<MoneyAttributeMetadata>("MoneyAttributeMetadata", [
+    "Precision",
+    "MinValue",
+    "MaxValue",
+    "FormulaDefinition",
+    "SourceType",
+  ]),
+  castDetails<DoubleAttributeMetadata>("DoubleAttributeMetadata", [
+    "Precision",
+    "MinValue",
+    "MaxValue",
+  ]),
+  castDetails<IntegerAttributeMetadata>("IntegerAttributeMetadata", [
+    "Format",
+    "MinValue",
+    "MaxValue",
+    "FormulaDefinition",
+    "SourceType",
+  ]),
+  castDetails<BigIntAttributeMetadata>("BigIntAttributeMetadata", [
+    "MinValue",
+    "MaxValue",
+  ]),
+  castDetails<DateTimeAttributeMetadata>("DateTimeAttributeMetadata", [
+    "Format",
+    "FormulaDefinition",
+    "SourceType",
+  ]),
+];
+
+const attributeSourceTypes: Record<number, string> = {
+  0: "Simple",
+  1: "Calculated",
+  2: "Rollup",
+  3: "Formula",
+};
 
 /**
  * Fetches all attributes for a given entity from Microsoft Dynamics 365, handling paging.
+ * Type-specific details (options, lookup targets, lengths, precision, formulas) are read
+ * from the metadata casts and merged into each attribute by LogicalName.
  */
 export async function fetchEntityAttributes(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
-): Promise<any[]> {
-  const attributesUrl = `${baseUrl}/EntityDefinitions(LogicalName='${entityName}')/Attributes`;
-  let attributes: any[] = [];
-  let nextLink: string | null = attributesUrl;
+  client: DataverseClient
+): Promise<Attribute[]> {
+  const attributesUrl = `EntityDefinitions(LogicalName='${entityName}')/Attributes`;
+  const castUrls = attributeTypeDetails.map(
+    ({ cast, select, expand }) =>
+      `${attributesUrl}/Microsoft.Dynamics.CRM.${cast}?$select=${[
+        "LogicalName",
+        ...select,
+      ].join(",")}${expand ? `&$expand=${expand}` : ""}`
+  );
 
-  while (nextLink) {
-    const response: AxiosResponse<any> = await axios.get(nextLink, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
+  // The base list and the casts are independent, so they are requested together.
+  const [attributes, ...castDetails] = await Promise.all([
+    client.getAll<Attribute>(attributesUrl),
+    ...castUrls.map((url) => client.getAll<AttributeCastDetails>(url)),
+  ]);
+  const byName = new Map(attributes.map((attr) => [attr.LogicalName, attr]));
 
-    const data = response.data;
-    attributes = attributes.concat(data.value || []);
-    nextLink = data["@odata.nextLink"] || null;
+  for (const details of castDetails) {
+    for (const { LogicalName, ...properties } of details) {
+      const attribute = byName.get(LogicalName);
+      if (attribute) {
+        Object.assign(attribute, properties);
+      }
+    }
   }
 
   return attributes;
 }
 
+/**
+ * Returns the options of a choice, status or yes/no attribute as "value: label" pairs.
+ */
+function attributeOptions(attribute: Attribute): string {
+  const optionSet = attribute.OptionSet || attribute.GlobalOptionSet;
+  if (!optionSet) {
+    return "";
+  }
+  if ("TrueOption" in optionSet) {
+    return formatOptions([optionSet.TrueOption, optionSet.FalseOption]);
+  }
+  return formatOptions(optionSet.Options);
+}
+
 /**
  * Transforms a raw attribute object into a simplified record with renamed fields.
  */
-export function transformAttribute(attribute: any): Record<string, any> {
+export function transformAttribute(attribute: Attribute): Record<string, any> {
+  const optionSet = attribute.GlobalOptionSet || attribute.OptionSet;
+
   return {
-    "Display Name": attribute.SchemaName || "",
-    "Data Type": attribute.AttributeType || "",
-    Customizable: attribute.IsCustomizable?.Value || "",
+    "Display Name": localizedLabel(attribute.DisplayName),
+    "Schema Name": attribute.SchemaName || "",
+    "Logical Name": attribute.LogicalName || "",
+    Description: localizedLabel(attribute.Description),
+    // Multi-select choices report AttributeType "Virtual"; the type name tells them apart.
+    "Data Type":
+      attribute.AttributeType === "Virtual" &&
+      attribute.AttributeTypeName?.Value
+        ? attribute.AttributeTypeName.Value.replace(/Type$/, "")
+        : attribute.AttributeType || "",
+    Customizable: attribute.IsCustomizable?.Value ?? "",
     "Required Level": attribute.RequiredLevel?.Value || "",
+    "Option Set": optionSet?.IsGlobal ? optionSet.Name : "",
+    Options: attributeOptions(attribute),
+    Targets: (attribute.Targets || []).join(", "),
+    "Max Length": attribute.MaxLength ?? "",
+    Format: attribute.Format ?? "",
+    Precision: attribute.Precision ?? "",
+    "Min Value": attribute.MinValue ?? "",
+    "Max Value": attribute.MaxValue ?? "",
+    "Source Type": attributeSourceTypes[attribute.SourceType ?? -1] || "",
+    Formula: attribute.FormulaDefinition || "",
   };
 }
 
 /**
- * Adds a worksheet for entity attributes (columns) to the given Excel workbook.
+ * Builds the "Columns" sheet records: one transformed record per attribute, followed by its population
+ * when the columns were profiled.
  */
-export async function addColumnsSheet(
-  workbook: ExcelJS.Workbook,
+export function buildColumnsRecords(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
-) {
-  const rawAttributes = await fetchEntityAttributes(
-    entityName,
-    accessToken,
-    baseUrl
-  );
-  console.log(`Fetched ${rawAttributes.length} attributes for ${entityName}.`);
-
-  const transformedAttributes = rawAttributes.map(transformAttribute);
-
-  const worksheet = workbook.addWorksheet("Columns");
+  rawAttributes: Attribute[],
+  stats?: ColumnStats
+): Record<string, any>[] {
+  console.log(`Adding ${rawAttributes.length} attributes for ${entityName}.`);
 
-  if (transformedAttributes.length > 0) {
-    worksheet.columns = Object.keys(transformedAttributes[0]).map((key) => ({
-      header: key,
-      key,
-    }));
-
-    transformedAttributes.forEach((attr) => worksheet.addRow(attr));
-  }
+  return rawAttributes.map((attribute) =>
+    stats
+      ? {
+          ...transformAttribute(attribute),
+          ...columnStatFields(stats, attribute.LogicalName),
+        }
+      : transformAttribute(attribute)
+  );
 }
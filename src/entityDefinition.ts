@@ -0,0 +1,132 @@
+// src/entityDefinition.ts
+
+import { DataverseClient } from "./dataverseClient";
+import { localizedLabel } from "./labels";
+import { EntityDefinition, Selected } from "./types/crm";
+
+const ENTITY_FIELDS = [
+  "LogicalName",
+  "SchemaName",
+  "EntitySetName",
+  "ObjectTypeCode",
+  "DisplayName",
+  "DisplayCollectionName",
+  "Description",
+  "PrimaryIdAttribute",
+  "PrimaryNameAttribute",
+  "OwnershipType",
+  "IsCustomEntity",
+  "IsManaged",
+  "IsCustomizable",
+  "TableType",
+  "IsActivity",
+  "IsAuditEnabled",
+  "ChangeTrackingEnabled",
+  "HasActivities",
+  "HasNotes",
+  "IsDuplicateDetectionEnabled",
+  "IsConnectionsEnabled",
+  "IsBusinessProcessEnabled",
+  "IsAvailableOffline",
+  "IsQuickCreateEnabled",
+] as const satisfies readonly (keyof EntityDefinition)[];
+
+/**
+ * The entity-level properties of an entity, as returned by fetchEntityDefinition.
+ */
+export type EntityProperties = Selected<EntityDefinition, typeof ENTITY_FIELDS>;
+
+/**
+ * Fetches the entity-level properties of an entity (names, primary attributes, ownership and settings).
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<EntityProperties>} A promise that resolves to the entity's properties.
+ * @throws Will throw an error if the entity does not exist or the request fails.
+ */
+export async function fetchEntityDefinition(
+  entityName: string,
+  client: DataverseClient
+): Promise<EntityProperties> {
+  return client.get<EntityProperties>(
+    `EntityDefinitions(LogicalName='${entityName}')?$select=${ENTITY_FIELDS.join(
+      ","
+    )}`
+  );
+}
+
+/**
+ * Returns the properties shown at the top of an entity workbook's Summary sheet.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {EntityProperties} [definition] - The entity's properties; only the name is known without them
+ * (e.g., from an older snapshot).
+ * @returns {Record<string, any>} The properties by label, in display order.
+ */
+export function summaryProperties(
+  entityName: string,
+  definition?: EntityProperties
+): Record<string, any> {
+  if (!definition) {
+    return { "Logical Name": entityName };
+  }
+
+  return {
+    "Logical Name": definition.LogicalName,
+    "Schema Name": definition.SchemaName,
+    "Display Name": localizedLabel(definition.DisplayName),
+    "Plural Name": localizedLabel(definition.DisplayCollectionName),
+    Description: localizedLabel(definition.Description),
+    "Entity Set Name": definition.EntitySetName,
+    "Object Type Code": definition.ObjectTypeCode,
+    "Primary ID": definition.PrimaryIdAttribute,
+    "Primary Name": definition.PrimaryNameAttribute,
+    Ownership: definition.OwnershipType,
+    Custom: definition.IsCustomEntity,
+    Managed: definition.IsManaged,
+  };
+}
+
+/**
+ * Builds the "Entity" sheet records: one Property/Value row for each of the Summary properties followed by
+ * the entity's settings (auditing, change tracking, activities and notes, duplicate detection, offline,
+ * quick create, ...).
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {EntityProperties} [definition] - The entity's properties; only the name is known without them.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildEntityRecords(
+  entityName: string,
+  definition?: EntityProperties
+): Record<string, any>[] {
+  const properties = summaryProperties(entityName, definition);
+  if (definition) {
+    Object.assign(properties, {
+      "Table Type": definition.TableType,
+      Activity: definition.IsActivity,
+      Customizable: definition.IsCustomizable?.Value ?? "",
+      Auditing: definition.IsAuditEnabled?.Value ?? "",
+      "Change Tracking": definition.ChangeTrackingEnabled,
+      Activities: definition.HasActivities,
+      Notes: definition.HasNotes,
+      "Duplicate Detection":
+        definition.IsDuplicateDetectionEnabled?.Value ?? "",
+      Connections: definition.IsConnectionsEnabled?.Value ?? "",
+      "Business Process Flows": definition.IsBusinessProcessEnabled,
+      Offline: definition.IsAvailableOffline,
+      "Quick Create": definition.IsQuickCreateEnabled,
+    });
+  }
+
+  console.log(
+    `Adding ${
+      Object.keys(properties).length
+    } entity properties for ${entityName}.`
+  );
+
+  return Object.entries(properties).map(([Property, Value]) => ({
+    Property,
+    Value,
+  }));
+}
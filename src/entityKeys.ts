@@ -0,0 +1,76 @@
+// src/entityKeys.ts
+
+import { DataverseClient } from "./dataverseClient";
+import { localizedLabel } from "./labels";
+import { EntityKeyMetadata, Selected } from "./types/crm";
+
+const KEY_FIELDS = [
+  "LogicalName",
+  "SchemaName",
+  "DisplayName",
+  "KeyAttributes",
+  "EntityKeyIndexStatus",
+  "IsManaged",
+  "IsCustomizable",
+] as const satisfies readonly (keyof EntityKeyMetadata)[];
+
+/**
+ * An alternate key as returned by fetchEntityKeys.
+ */
+export type EntityKey = Selected<EntityKeyMetadata, typeof KEY_FIELDS>;
+
+/**
+ * Fetches the alternate keys of an entity.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<EntityKey[]>} A promise that resolves to the keys.
+ * @throws Will throw an error if the request fails.
+ */
+export async function fetchEntityKeys(
+  entityName: string,
+  client: DataverseClient
+): Promise<EntityKey[]> {
+  return client.getAll<EntityKey>(
+    `EntityDefinitions(LogicalName='${entityName}')/Keys?$select=${KEY_FIELDS.join(
+      ","
+    )}`
+  );
+}
+
+/**
+ * Transforms an alternate key into a row of the "Keys" sheet.
+ *
+ * @param {EntityKey} key - A key returned by fetchEntityKeys.
+ * @returns {Record<string, any>} The sheet row.
+ */
+export function transformKey(key: EntityKey): Record<string, any> {
+  return {
+    "Logical Name": key.LogicalName,
+    "Schema Name": key.SchemaName,
+    "Display Name": localizedLabel(key.DisplayName),
+    "Key Attributes": (key.KeyAttributes || []).join(", "),
+    // A key can only be used for upserts once its index is Active; Failed keys need reactivating.
+    "Index Status": key.EntityKeyIndexStatus || "",
+    Managed: key.IsManaged,
+    Customizable: key.IsCustomizable?.Value ?? "",
+  };
+}
+
+/**
+ * Builds the "Keys" sheet records: the entity's alternate keys, by logical name.
+ *
+ * @param {string} entityName - The name of the entity whose keys are being added.
+ * @param {EntityKey[]} keys - The keys returned by fetchEntityKeys.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildKeysRecords(
+  entityName: string,
+  keys: EntityKey[]
+): Record<string, any>[] {
+  console.log(`Adding ${keys.length} alternate keys for ${entityName}.`);
+
+  return [...keys]
+    .sort((a, b) => a.LogicalName.localeCompare(b.LogicalName))
+    .map(transformKey);
+}
@@ -0,0 +1,144 @@
+// src/entityMetadata.ts
+
+import { ColumnStats } from "./columnStats";
+import { DataverseClient } from "./dataverseClient";
+import {
+  AutomationProcess,
+  fetchEntityPluginSteps,
+  fetchEntityProcesses,
+  PluginStep,
+} from "./entityAutomation";
+import { fetchEntityAttributes } from "./entityColumns";
+import { EntityProperties, fetchEntityDefinition } from "./entityDefinition";
+import { EntityKey, fetchEntityKeys } from "./entityKeys";
+import { fetchEntityRelationships } from "./entityRelationships";
+import { EntityForm, fetchEntityForms } from "./entityForms";
+import { fetchEntityRoleAccess, RoleAccess } from "./entitySecurity";
+import { EntityView, fetchEntityViews } from "./entityViews";
+import { fetchEntityBusinessRules } from "./entityBusinessRules";
+import { Attribute, BusinessRule, RelationshipMetadata } from "./types/crm";
+
+/**
+ * The raw metadata fetched for one entity, as returned by the individual fetchers.
+ */
+export interface EntityMetadata {
+  entityName: string;
+  /** The entity-level properties; missing from snapshots taken before they were fetched. */
+  definition?: EntityProperties;
+  attributes: Attribute[];
+  /** The alternate keys. */
+  keys: EntityKey[];
+  relationships: RelationshipMetadata[];
+  forms: EntityForm[];
+  views: EntityView[];
+  businessRules: BusinessRule[];
+  /** Workflows, actions, business process flows and cloud flows (everything but business rules). */
+  processes: AutomationProcess[];
+  pluginSteps: PluginStep[];
+  /** Every security role with its access to the entity. */
+  securityRoles: RoleAccess[];
+  /** How the columns are populated, when profiled (see profileColumns). */
+  columnStats?: ColumnStats;
+}
+
+export type MetadataPart = Exclude<
+  keyof EntityMetadata,
+  "entityName" | "definition" | "columnStats"
+>;
+
+export const METADATA_PARTS: MetadataPart[] = [
+  "attributes",
+  "keys",
+  "relationships",
+  "forms",
+  "views",
+  "businessRules",
+  "processes",
+  "pluginSteps",
+  "securityRoles",
+];
+
+/**
+ * Returns metadata with every part empty and no definition: an entity missing from a snapshot or an
+ * environment, which diffs as entirely added or removed.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @returns {EntityMetadata} The empty metadata.
+ */
+export function emptyEntityMetadata(entityName: string): EntityMetadata {
+  return {
+    entityName,
+    ...(Object.fromEntries(METADATA_PARTS.map((part) => [part, []])) as Record<
+      MetadataPart,
+      []
+    >),
+  };
+}
+
+/**
+ * Fetches the entity-level properties and the attributes, alternate keys, relationships, forms, views, business rules,
+ * processes, plug-in steps and security roles of an entity. The requests run concurrently (and so share a $batch when client is a batching client);
+ * parts that are not requested are left empty.
+ *
+ * @param {string} entityName - The logical name of the entity (e.g., "account", "contact").
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @param {MetadataPart[]} [parts] - The parts to fetch (default: all).
+ * @returns {Promise<EntityMetadata>} A promise that resolves to the raw metadata.
+ * @throws Will throw an error if any request fails.
+ */
+export async function fetchEntityMetadata(
+  entityName: string,
+  client: DataverseClient,
+  parts: MetadataPart[] = METADATA_PARTS
+): Promise<EntityMetadata> {
+  const fetchPart = <T>(
+    part: MetadataPart,
+    fetcher: (entityName: string, client: DataverseClient) => Promise<T[]>
+  ): Promise<T[]> =>
+    parts.includes(part) ? fetcher(entityName, client) : Promise.resolve([]);
+
+  const [
+    definition,
+    attributes,
+    keys,
+    relationships,
+    forms,
+    views,
+    businessRules,
+    processes,
+    pluginSteps,
+    securityRoles,
+  ] = await Promise.all([
+    fetchEntityDefinition(entityName, client),
+    fetchPart("attributes", fetchEntityAttributes),
+    fetchPart("keys", fetchEntityKeys),
+    fetchPart("relationships", fetchEntityRelationships),
+    fetchPart("forms", fetchEntityForms),
+    fetchPart("views", fetchEntityViews),
+    fetchPart("businessRules", fetchEntityBusinessRules),
+    fetchPart("processes", fetchEntityProcesses),
+    fetchPart("pluginSteps", fetchEntityPluginSteps),
+    fetchPart("securityRoles", fetchEntityRoleAccess),
+  ]);
+  const metadata: EntityMetadata = {
+    entityName,
+    definition,
+    attributes,
+    keys,
+    relationships,
+    forms,
+    views,
+    businessRules,
+    processes,
+    pluginSteps,
+    securityRoles,
+  };
+
+  console.log(
+    `Fetched ${parts
+      .map((part) => `${metadata[part].length} ${part}`)
+      .join(", ")} for ${entityName}.`
+  );
+
+  return metadata;
+}
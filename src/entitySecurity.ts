@@ -0,0 +1,205 @@
+// src/entitySecurity.ts
+
+import { DataverseClient } from "./dataverseClient";
+import { EntityDefinition, Role, RolePrivilege, Selected } from "./types/crm";
+
+/**
+ * The entity privileges shown on the "Security" sheet, in column order.
+ */
+export const PRIVILEGE_TYPES = [
+  "Create",
+  "Read",
+  "Write",
+  "Delete",
+  "Append",
+  "AppendTo",
+  "Assign",
+  "Share",
+] as const;
+
+export type PrivilegeType = (typeof PRIVILEGE_TYPES)[number];
+
+const ROLE_FIELDS = [
+  "roleid",
+  "name",
+  "ismanaged",
+] as const satisfies readonly (keyof Role)[];
+
+const ROLE_PRIVILEGE_FIELDS = [
+  "roleid",
+  "privilegeid",
+  "privilegedepthmask",
+] as const satisfies readonly (keyof RolePrivilege)[];
+
+/**
+ * A security role's access to one entity, as returned by fetchEntityRoleAccess.
+ */
+export type RoleAccess = Selected<Role, typeof ROLE_FIELDS> & {
+  /**
+   * The depth mask granted for each privilege the entity defines; 0 when the role does not have it.
+   * Privileges the entity does not define (e.g., Assign on an organization-owned entity) are missing.
+   */
+  privileges: Partial<Record<PrivilegeType, number>>;
+};
+
+/** The depths of a privilegedepthmask, deepest first. */
+const privilegeDepths: [number, string][] = [
+  [8, "Org"],
+  [4, "Parent-Child"],
+  [2, "BU"],
+  [1, "User"],
+];
+
+/**
+ * Returns the label of the deepest access in a privilegedepthmask.
+ *
+ * @param {number | undefined} mask - The depth mask; undefined when the entity has no such privilege.
+ * @returns {string} "Org", "Parent-Child", "BU", "User" or "None"; blank when the privilege does not apply.
+ */
+export function privilegeDepth(mask: number | undefined): string {
+  if (mask === undefined) {
+    return "";
+  }
+  return privilegeDepths.find(([bit]) => mask & bit)?.[1] || "None";
+}
+
+/**
+ * Fetches every security role with its access to an entity. Only the root business unit's copy of each role
+ * is read, since the copies in child business units carry the same privileges.
+ *
+ * @param {string} entityName - The logical name of the entity.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<RoleAccess[]>} A promise that resolves to the roles; empty when the entity has no
+ * privileges of its own (e.g., child entities secured through their parent).
+ * @throws Will throw an error if a request fails.
+ */
+export async function fetchEntityRoleAccess(
+  entityName: string,
+  client: DataverseClient
+): Promise<RoleAccess[]> {
+  const { Privileges } = await client.get<Pick<EntityDefinition, "Privileges">>(
+    `EntityDefinitions(LogicalName='${entityName}')?$select=Privileges`
+  );
+  const privileges = (Privileges || []).filter((privilege) =>
+    (PRIVILEGE_TYPES as readonly string[]).includes(privilege.PrivilegeType)
+  );
+  if (privileges.length === 0) {
+    return [];
+  }
+
+  const filter = privileges
+    .map((privilege) => `privilegeid eq ${privilege.PrivilegeId}`)
+    .join(" or ");
+  const [roles, rolePrivileges] = await Promise.all([
+    client.getAll<Selected<Role, typeof ROLE_FIELDS>>(
+      `roles?$select=${ROLE_FIELDS.join(",")}&$filter=${encodeURIComponent(
+        "_parentroleid_value eq null"
+      )}`
+    ),
+    client.getAll<Selected<RolePrivilege, typeof ROLE_PRIVILEGE_FIELDS>>(
+      `roleprivilegescollection?$select=${ROLE_PRIVILEGE_FIELDS.join(
+        ","
+      )}&$filter=${encodeURIComponent(filter)}`
+    ),
+  ]);
+
+  return roles.map((role) => ({
+    ...role,
+    privileges: Object.fromEntries(
+      privileges.map((privilege) => [
+        privilege.PrivilegeType,
+        rolePrivileges
+          .filter(
+            (granted) =>
+              granted.roleid === role.roleid &&
+              granted.privilegeid === privilege.PrivilegeId
+          )
+          .reduce((mask, granted) => mask | granted.privilegedepthmask, 0),
+      ])
+    ),
+  }));
+}
+
+/**
+ * Returns the title a privilege is shown under ("AppendTo" reads as "Append To").
+ *
+ * @param {PrivilegeType} type - The privilege.
+ * @returns {string} The column (or security matrix sheet) title.
+ */
+export function privilegeColumn(type: PrivilegeType): string {
+  return type === "AppendTo" ? "Append To" : type;
+}
+
+/**
+ * Transforms a role's access into a row of the "Security" sheet.
+ *
+ * @param {RoleAccess} role - A role returned by fetchEntityRoleAccess.
+ * @returns {Record<string, any>} The sheet row.
+ */
+export function transformRoleAccess(role: RoleAccess): Record<string, any> {
+  return {
+    Role: role.name,
+    Managed: role.ismanaged,
+    ...Object.fromEntries(
+      PRIVILEGE_TYPES.map((type) => [
+        privilegeColumn(type),
+        privilegeDepth(role.privileges[type]),
+      ])
+    ),
+  };
+}
+
+/**
+ * Builds the "Security" sheet records: one row per security role, by name, with its depth for each privilege.
+ *
+ * @param {string} entityName - The name of the entity whose security is being added.
+ * @param {RoleAccess[]} roles - The roles returned by fetchEntityRoleAccess.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildSecurityRecords(
+  entityName: string,
+  roles: RoleAccess[]
+): Record<string, any>[] {
+  console.log(`Adding ${roles.length} security roles for ${entityName}.`);
+
+  return [...roles]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(transformRoleAccess);
+}
+
+/**
+ * Builds one sheet of the cross-entity security matrix: a row per role, by name, with its depth for the
+ * privilege on each entity (blank when the entity does not define the privilege). Rows are matched across
+ * entities by role ID, so roles that share a name keep a row each.
+ *
+ * @param {PrivilegeType} type - The privilege the sheet shows.
+ * @param {{ entityName: string; roles: RoleAccess[] }[]} entities - Each entity's roles, in column order.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildSecurityMatrixRecords(
+  type: PrivilegeType,
+  entities: { entityName: string; roles: RoleAccess[] }[]
+): Record<string, any>[] {
+  const names = new Map<string, string>();
+  for (const { roles } of entities) {
+    for (const role of roles) {
+      names.set(role.roleid, role.name);
+    }
+  }
+  const roleIds = Array.from(names.keys()).sort(
+    (a, b) => names.get(a)!.localeCompare(names.get(b)!) || a.localeCompare(b)
+  );
+
+  return roleIds.map((roleid) => ({
+    Role: names.get(roleid),
+    "Role ID": roleid,
+    ...Object.fromEntries(
+      entities.map(({ entityName, roles }) => [
+        entityName,
+        privilegeDepth(
+          roles.find((role) => role.roleid === roleid)?.privileges[type]
+        ),
+      ])
+    ),
+  }));
+}
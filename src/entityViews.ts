@@ -1,63 +1,47 @@
 // src/entityViews.ts
 
-import axios, { AxiosResponse } from "axios";
-import * as ExcelJS from "exceljs";
+import { DataverseClient } from "./dataverseClient";
+import { SavedQuery, Selected } from "./types/crm";
 
 /**
- * Fetches all pages of data from a given URL, handling paging.
- *
- * @param {string} url - The initial URL to fetch data from.
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @returns {Promise<any[]>} A promise that resolves to an array of all fetched records.
- * @throws Will throw an error if the request fails.
+ * The savedquery columns read by the Views and View Details sheets.
  */
-async function fetchAllPages(url: string, accessToken: string): Promise<any[]> {
-  let results: any[] = [];
-  let nextLink: string | null = url;
+const VIEW_FIELDS = [
+  "name",
+  "description",
+  "componentstate",
+  // "returnedtypecode",
+  "fetchxml",
+  "layoutxml",
+  "layoutjson",
+  "isdefault",
+  "ismanaged",
+  "iscustomizable",
+] as const satisfies readonly (keyof SavedQuery)[];
 
-  while (nextLink) {
-    const response: AxiosResponse<any> = await axios.get(nextLink, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
-
-    results.push(...(response.data.value || []));
-    nextLink = response.data["@odata.nextLink"] || null;
-  }
-
-  return results;
-}
+/**
+ * A savedquery record as returned by fetchEntityViews.
+ */
+export type EntityView = Selected<SavedQuery, typeof VIEW_FIELDS>;
 
 /**
  * Fetches system views (savedqueries) for a given entity from Microsoft Dynamics 365.
  *
  * @param {string} entityName - The logical name of the entity (e.g., "account", "contact").
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @param {string} baseUrl - The base URL of the Dynamics 365 instance.
- * @returns {Promise<any[]>} A promise that resolves to an array of view records.
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<EntityView[]>} A promise that resolves to an array of view records.
  * @throws Will throw an error if the request fails.
  */
 export async function fetchEntityViews(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
-): Promise<any[]> {
-  const selectedFields = [
-    "name",
-    "description",
-    "componentstate",
-    // "returnedtypecode",
-    // "fetchxml",
-    // "layoutxml",
-    // "layoutjson",
-    "isdefault",
-    "ismanaged",
-    "iscustomizable/Value",
-  ].join(",");
-
-  const viewsUrl = `${baseUrl}/savedqueries?$filter=returnedtypecode eq '${entityName}'&$select=${selectedFields}`;
+  client: DataverseClient
+): Promise<EntityView[]> {
+  const viewsUrl = `savedqueries?$filter=returnedtypecode eq '${entityName}'&$select=${VIEW_FIELDS.join(
+    ","
+  )}`;
 
   try {
-    const views = await fetchAllPages(viewsUrl, accessToken);
+    const views = await client.getAll<EntityView>(viewsUrl);
     return views;
   } catch (error) {
     console.error(`Error fetching views for ${entityName}:`, error);
@@ -68,10 +52,10 @@ export async function fetchEntityViews(
 /**
  * Transforms a raw view object into a simplified record with renamed fields.
  *
- * @param {any} view - The raw view object to transform.
+ * @param {EntityView} view - The raw view object to transform.
  * @returns {Record<string, any>} A transformed object with key-value pairs for the view.
  */
-export function transformView(view: any): Record<string, any> {
+export function transformView(view: EntityView): Record<string, any> {
   const formComponentStates: Record<number, string> = {
     0: "Published",
     1: "Unpublished",
@@ -83,10 +67,10 @@ export function transformView(view: any): Record<string, any> {
     Name: view.name || "",
     Description: view.description || "",
     // "Entity Name": view.returnedtypecode || "",
-    "Component State": formComponentStates[view["componentstate"]] || "",
+    "Component State": formComponentStates[view.componentstate] || "",
     "Is Default": view.isdefault || false,
     "Is Managed": view.ismanaged || false,
-    "Is Customizable": view["iscustomizable/Value"] ?? false,
+    "Is Customizable": view.iscustomizable?.Value ?? false,
     // "Fetch XML": view.fetchxml || "",
     // "Layout XML": view.layoutxml || "",
     // "Layout JSON": view.layoutjson || "",
@@ -94,36 +78,17 @@ export function transformView(view: any): Record<string, any> {
 }
 
 /**
- * Adds a worksheet for views to the given Excel workbook.
+ * Builds the "Views" sheet records: one transformed record per view.
  *
- * @param {ExcelJS.Workbook} workbook - The Excel workbook to add the worksheet to.
  * @param {string} entityName - The name of the entity whose views are being added.
- * @param {string} accessToken - The OAuth2 access token for authentication.
- * @param {string} baseUrl - The base URL of the Dynamics 365 instance.
- * @returns {Promise<void>} A promise that resolves when the worksheet has been added.
- * @throws Will throw an error if fetching views fails.
+ * @param {EntityView[]} rawViews - The views returned by fetchEntityViews.
+ * @returns {Record<string, any>[]} The sheet records.
  */
-export async function addViewsSheet(
-  workbook: ExcelJS.Workbook,
+export function buildViewsRecords(
   entityName: string,
-  accessToken: string,
-  baseUrl: string
-): Promise<void> {
-  const rawViews = await fetchEntityViews(entityName, accessToken, baseUrl);
-  console.log(`Fetched ${rawViews.length} View records for ${entityName}.`);
-
-  const transformed = rawViews.map(transformView);
+  rawViews: EntityView[]
+): Record<string, any>[] {
+  console.log(`Adding ${rawViews.length} View records for ${entityName}.`);
 
-  const worksheet = workbook.addWorksheet("Views");
-
-  if (transformed.length > 0) {
-    worksheet.columns = Object.keys(transformed[0]).map((key) => ({
-      header: key,
-      key,
-    }));
-
-    for (const row of transformed) {
-      worksheet.addRow(row);
-    }
-  }
+  return rawViews.map(transformView);
 }
@@ -0,0 +1,239 @@
+// src/erDiagram.ts
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { EntityMetadata } from "./entityMetadata";
+
+export const DIAGRAM_FORMATS = ["mermaid", "plantuml"] as const;
+
+export type DiagramFormat = (typeof DIAGRAM_FORMATS)[number];
+
+/**
+ * Entities nearly every table relates to (ownership, auditing, currency). Their relationships are left out of
+ * diagrams unless system relationships are explicitly included.
+ */
+export const SYSTEM_ENTITIES = [
+  "systemuser",
+  "team",
+  "businessunit",
+  "organization",
+  "owner",
+  "transactioncurrency",
+  "principalobjectattributeaccess",
+  "processsession",
+  "asyncoperation",
+  "bulkdeletefailure",
+  "syncerror",
+  "mailboxtrackingfolder",
+  "duplicaterecord",
+  "userentityinstancedata",
+];
+
+/**
+ * One relationship between two entities. For one-to-many relationships "from" is the referenced (one) side;
+ * for many-to-many relationships "from" and "to" are Entity1 and Entity2.
+ */
+export interface RelationshipEdge {
+  schemaName: string;
+  type: "OneToMany" | "ManyToMany";
+  from: string;
+  to: string;
+  /** The lookup attribute on the "to" entity (one-to-many), or the intersect entity (many-to-many). */
+  label: string;
+}
+
+export interface DiagramOptions {
+  /** Entities whose relationships are dropped (e.g., SYSTEM_ENTITIES). */
+  exclude: string[];
+  /** Limit the diagram to this entity and its neighbours. */
+  root?: string;
+  /** How many relationships away from the root to include (default 1). */
+  hops?: number;
+}
+
+/**
+ * Collects the relationships of the processed entities as edges, once each, even when both ends were processed.
+ *
+ * @param {EntityMetadata[]} entities - The fetched metadata, including relationships.
+ * @returns {RelationshipEdge[]} The edges, sorted by schema name.
+ */
+export function collectRelationshipEdges(
+  entities: EntityMetadata[]
+): RelationshipEdge[] {
+  const edges = new Map<string, RelationshipEdge>();
+
+  for (const entity of entities) {
+    for (const rel of entity.relationships) {
+      if (!rel.SchemaName || edges.has(rel.SchemaName)) {
+        continue;
+      }
+      if (rel.RelationshipType === "ManyToManyRelationship") {
+        edges.set(rel.SchemaName, {
+          schemaName: rel.SchemaName,
+          type: "ManyToMany",
+          from: rel.Entity1LogicalName || "",
+          to: rel.Entity2LogicalName || "",
+          label: rel.IntersectEntityName || rel.SchemaName,
+        });
+      } else {
+        edges.set(rel.SchemaName, {
+          schemaName: rel.SchemaName,
+          type: "OneToMany",
+          from: rel.ReferencedEntity || "",
+          to: rel.ReferencingEntity || "",
+          label: rel.ReferencingAttribute || rel.SchemaName,
+        });
+      }
+    }
+  }
+
+  return Array.from(edges.values())
+    .filter((edge) => edge.from && edge.to)
+    .sort((a, b) => a.schemaName.localeCompare(b.schemaName));
+}
+
+/**
+ * Applies the diagram options: drops relationships to excluded entities, then, if a root is given, keeps only
+ * relationships within the given number of hops of it (unprocessed neighbours included). Without a root, only
+ * relationships between processed entities are kept.
+ *
+ * @param {RelationshipEdge[]} edges - The edges returned by collectRelationshipEdges.
+ * @param {DiagramOptions} options - The exclusions and the optional root and hop count.
+ * @param {string[]} processed - The logical names of the processed entities.
+ * @returns {RelationshipEdge[]} The edges to draw.
+ */
+export function selectEdges(
+  edges: RelationshipEdge[],
+  options: DiagramOptions,
+  processed: string[]
+): RelationshipEdge[] {
+  const excluded = new Set(options.exclude);
+  const kept = edges.filter(
+    (edge) => !excluded.has(edge.from) && !excluded.has(edge.to)
+  );
+
+  if (!options.root) {
+    const names = new Set(processed);
+    return kept.filter((edge) => names.has(edge.from) && names.has(edge.to));
+  }
+
+  const reached = new Set([options.root]);
+  let frontier = [options.root];
+  for (let hop = 0; hop < (options.hops ?? 1) && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of kept) {
+      for (const [here, there] of [
+        [edge.from, edge.to],
+        [edge.to, edge.from],
+      ]) {
+        if (frontier.includes(here) && !reached.has(there)) {
+          reached.add(there);
+          next.push(there);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return kept.filter((edge) => reached.has(edge.from) && reached.has(edge.to));
+}
+
+function diagramEntities(edges: RelationshipEdge[], root?: string): string[] {
+  const names = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+  if (root) {
+    names.add(root);
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * Renders edges as a Mermaid erDiagram.
+ *
+ * @param {RelationshipEdge[]} edges - The edges to draw.
+ * @param {string} [root] - The root entity, drawn even if it has no relationships left.
+ * @returns {string} The Mermaid source.
+ */
+export function renderMermaid(
+  edges: RelationshipEdge[],
+  root?: string
+): string {
+  const lines = ["erDiagram"];
+  if (root && edges.length === 0) {
+    lines.push(`    ${root}`);
+  }
+  for (const edge of edges) {
+    const cardinality = edge.type === "ManyToMany" ? "}o--o{" : "||--o{";
+    lines.push(`    ${edge.from} ${cardinality} ${edge.to} : "${edge.label}"`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Renders edges as a PlantUML entity diagram in information engineering notation.
+ *
+ * @param {RelationshipEdge[]} edges - The edges to draw.
+ * @param {string} [root] - The root entity, drawn even if it has no relationships left.
+ * @returns {string} The PlantUML source.
+ */
+export function renderPlantUml(
+  edges: RelationshipEdge[],
+  root?: string
+): string {
+  const lines = ["@startuml", "hide circle", "hide empty members", ""];
+  for (const name of diagramEntities(edges, root)) {
+    lines.push(`entity ${name}`);
+  }
+  lines.push("");
+  for (const edge of edges) {
+    const cardinality = edge.type === "ManyToMany" ? "}o--o{" : "||--o{";
+    lines.push(`${edge.from} ${cardinality} ${edge.to} : ${edge.label}`);
+  }
+  lines.push("@enduml");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes ER diagrams of the processed entities: "er-all" for the relationships among them, or "er-<root>" for a
+ * root entity and its neighbours, with a .mmd and/or .puml file per format.
+ *
+ * @param {EntityMetadata[]} entities - The fetched metadata, including relationships.
+ * @param {string} outputDir - The folder the diagrams are written to.
+ * @param {DiagramFormat[]} formats - The formats to write.
+ * @param {DiagramOptions} options - The exclusions and the optional root and hop count.
+ * @returns {string[]} The paths of the written diagrams.
+ * @throws Will throw an error if a diagram cannot be written.
+ */
+export function writeDiagrams(
+  entities: EntityMetadata[],
+  outputDir: string,
+  formats: DiagramFormat[],
+  options: DiagramOptions
+): string[] {
+  const edges = selectEdges(
+    collectRelationshipEdges(entities),
+    options,
+    entities.map((entity) => entity.entityName)
+  );
+  const baseName = options.root ? `er-${options.root}` : "er-all";
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  const written: string[] = [];
+  for (const format of formats) {
+    const outputPath = path.join(
+      outputDir,
+      `${baseName}.${format === "mermaid" ? "mmd" : "puml"}`
+    );
+    fs.writeFileSync(
+      outputPath,
+      format === "mermaid"
+        ? renderMermaid(edges, options.root)
+        : renderPlantUml(edges, options.root),
+      "utf8"
+    );
+    written.push(outputPath);
+  }
+  console.log(`Wrote ${edges.length} relationships to ${written.join(", ")}`);
+
+  return written;
+}
@@ -1,59 +1,182 @@
 // src/excel.ts
 
 import * as ExcelJS from "exceljs";
-import * as fs from "fs";
-import * as path from "path";
+
+/** The widest a column is auto-sized to, in characters; longer text wraps off-screen instead. */
+const MAX_COLUMN_WIDTH = 60;
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FFD9E1F2" },
+};
 
 /**
- * Creates an Excel workbook for a single entity, writing out multiple sheets if needed.
+ * A Summary sheet cell that links to a place in the workbook.
+ */
+export interface SheetLink {
+  text: string | number;
+  sheet: string;
+  /** The row linked to (default: 1). */
+  row?: number;
+}
+
+/**
+ * A table on the Summary sheet; tables are written one below the other.
+ */
+export interface SummaryTable {
+  headers: string[];
+  rows: (SheetLink | string | number | boolean | null | undefined)[][];
+}
+
+/**
+ * Returns the column headers of a list of records: every key, in the order it first appears.
  *
- * @param {string} entityName - The name of the entity (used for the output file).
- * @param {{ sheetName: string; records: any[] }[]} sheetsData - An array of sheets to create; each includes a sheet name and an array of records.
- * @returns {Promise<void>} A promise that resolves when the workbook has been created and written to a file.
- * @throws Will throw an error if writing the workbook fails.
- */
-export async function createWorkbookForEntity(
-  entityName: string,
-  sheetsData: { sheetName: string; records: any[] }[]
-) {
-  // 1) Ensure ./outputs folder exists
-  const outputFolder = "./outputs";
-  if (!fs.existsSync(outputFolder)) {
-    fs.mkdirSync(outputFolder);
-  }
+ * @param {Record<string, any>[]} records - The records of one sheet.
+ * @returns {string[]} The headers.
+ */
+export function recordHeaders(records: Record<string, any>[]): string[] {
+  return Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+}
 
-  // 2) Create a new Workbook
-  const workbook = new ExcelJS.Workbook();
+/**
+ * Renders a value the same way in every sheet: booleans as "Yes"/"No", null and undefined as blank.
+ *
+ * @param {any} value - The record value.
+ * @returns {any} The value to write.
+ */
+export function displayValue(value: any): any {
+  if (value === true) {
+    return "Yes";
+  }
+  if (value === false) {
+    return "No";
+  }
+  return value ?? "";
+}
 
-  // 3) For each sheet, add records
-  for (const { sheetName, records } of sheetsData) {
-    // a) Create a new sheet
-    const worksheet = workbook.addWorksheet(sheetName);
+function isLink(value: unknown): value is SheetLink {
+  return typeof value === "object" && value !== null && "sheet" in value;
+}
 
-    if (records.length > 0) {
-      // b) Define columns based on the keys of the first record
-      //    Using `Object.keys(records[0])` as column headers
-      const columns = Object.keys(records[0]).map((key) => ({
-        header: key,
-        key: key,
-      }));
+/**
+ * Writes a Summary cell, turning links into hyperlinks to the linked sheet.
+ */
+function setSummaryCell(cell: ExcelJS.Cell, value: SummaryTable["rows"][0][0]) {
+  if (!isLink(value)) {
+    cell.value = displayValue(value);
+    return;
+  }
+  cell.value = {
+    text: String(value.text),
+    hyperlink: `#'${value.sheet.replace(/'/g, "''")}'!A${value.row ?? 1}`,
+  };
+  cell.font = { color: { argb: "FF0563C1" }, underline: true };
+}
 
-      worksheet.columns = columns;
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.eachCell((cell) => {
+    cell.fill = HEADER_FILL;
+  });
+}
 
-      // c) Add each record as a row
-      for (const record of records) {
-        worksheet.addRow(record);
+/**
+ * Sizes each column to its longest value (or header), up to MAX_COLUMN_WIDTH characters.
+ */
+function fitColumns(worksheet: ExcelJS.Worksheet) {
+  worksheet.columns.forEach((column) => {
+    let width = 0;
+    column.eachCell?.({ includeEmpty: false }, (cell) => {
+      for (const line of cell.text.split("\n")) {
+        width = Math.max(width, line.length);
       }
-    }
+    });
+    // Room for the filter button on the header.
+    column.width = Math.min(Math.max(width + 3, 8), MAX_COLUMN_WIDTH);
+  });
+}
+
+/**
+ * Gives a worksheet whose first row is a header the standard layout: a bold, shaded header row that stays
+ * frozen while scrolling, an autofilter over every column, and columns sized to their contents.
+ *
+ * @param {ExcelJS.Worksheet} worksheet - The worksheet, with its header and data rows already added.
+ */
+export function formatSheet(worksheet: ExcelJS.Worksheet) {
+  if (worksheet.columnCount === 0) {
+    return;
   }
+  styleHeaderRow(worksheet.getRow(1));
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+  worksheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: 1, column: worksheet.columnCount },
+  };
+  fitColumns(worksheet);
+}
+
+/**
+ * Adds a worksheet to the given workbook with one row per record, using the keys of the records as the header,
+ * laid out by formatSheet. An empty record list still adds the sheet, with a "No records." note, so every
+ * workbook has the same sheets.
+ *
+ * @param {ExcelJS.Workbook} workbook - The Excel workbook to add the worksheet to.
+ * @param {string} sheetName - The worksheet name.
+ * @param {Record<string, any>[]} records - The rows to write.
+ * @returns {ExcelJS.Worksheet} The added worksheet.
+ */
+export function addRecordsSheet(
+  workbook: ExcelJS.Workbook,
+  sheetName: string,
+  records: Record<string, any>[]
+): ExcelJS.Worksheet {
+  const worksheet = workbook.addWorksheet(sheetName);
 
-  // 4) Write the workbook to file
-  const outputPath = path.join(outputFolder, `${entityName}.xlsx`);
+  if (records.length === 0) {
+    const note = worksheet.getCell("A1");
+    note.value = "No records.";
+    note.font = { italic: true };
+    return worksheet;
+  }
 
-  try {
-    await workbook.xlsx.writeFile(outputPath);
-    console.log(`Workbook for ${entityName} created at ${outputPath}`);
-  } catch (err) {
-    console.error("Error writing workbook:", err);
+  const headers = recordHeaders(records);
+  worksheet.columns = headers.map((key) => ({ header: key, key }));
+  for (const record of records) {
+    worksheet.addRow(headers.map((header) => displayValue(record[header])));
   }
+  formatSheet(worksheet);
+
+  return worksheet;
+}
+
+/**
+ * Adds a "Summary" worksheet made of one or more tables, each with a bold, shaded header row.
+ * Call it before adding the other sheets so it is the first sheet of the workbook.
+ *
+ * @param {ExcelJS.Workbook} workbook - The Excel workbook to add the worksheet to.
+ * @param {SummaryTable[]} tables - The tables to write, separated by a blank row.
+ * @returns {ExcelJS.Worksheet} The added worksheet.
+ */
+export function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  tables: SummaryTable[]
+): ExcelJS.Worksheet {
+  const worksheet = workbook.addWorksheet("Summary");
+
+  tables.forEach((table, index) => {
+    if (index > 0) {
+      worksheet.addRow([]);
+    }
+    styleHeaderRow(worksheet.addRow(table.headers));
+    for (const values of table.rows) {
+      const row = worksheet.addRow([]);
+      values.forEach((value, column) =>
+        setSummaryCell(row.getCell(column + 1), value)
+      );
+    }
+  });
+  fitColumns(worksheet);
+
+  return worksheet;
 }
@@ -0,0 +1,314 @@
+// src/exporters.ts
+
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as path from "path";
+import { summaryProperties } from "./entityDefinition";
+import {
+  addRecordsSheet,
+  addSummarySheet,
+  displayValue,
+  recordHeaders,
+} from "./excel";
+import {
+  buildSecurityMatrixRecords,
+  privilegeColumn,
+  PRIVILEGE_TYPES,
+  RoleAccess,
+} from "./entitySecurity";
+import { EntitySheet, ProcessedEntity } from "./processEntity";
+
+/**
+ * The formats entity metadata can be written in:
+ * "xlsx" - one workbook per entity (<entity>.xlsx);
+ * "combined" - one workbook for the run, each sheet holding every entity (metadata.xlsx);
+ * "csv" - one file per sheet (<entity>/<sheet>.csv);
+ * "json" - one document per entity with its sheet records (<entity>.json);
+ * "security" - one workbook for the run with a sheet per privilege, roles by entity (security-matrix.xlsx).
+ */
+export const OUTPUT_FORMATS = [
+  "xlsx",
+  "combined",
+  "csv",
+  "json",
+  "security",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** The file the combined format writes, in the output folder. */
+export const COMBINED_WORKBOOK = "metadata.xlsx";
+
+/** The file the security format writes, in the output folder. */
+export const SECURITY_MATRIX_WORKBOOK = "security-matrix.xlsx";
+
+/**
+ * Receives the built sheets of each entity and writes them in one output format.
+ */
+export interface MetadataExporter {
+  /** Writes (or, for run-level outputs, keeps) one entity's sheets; entities may arrive in any order. */
+  writeEntity(entity: ProcessedEntity): Promise<void>;
+  /** Writes the run-level outputs once every entity has been written. */
+  finish(): Promise<void>;
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break.
+ *
+ * @param {any} value - The value to write; null and undefined are written as an empty field.
+ * @returns {string} The field text.
+ */
+export function csvField(value: any): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes one workbook per entity, led by a Summary sheet with the entity's properties and a linked list of
+ * the other sheets with their record counts.
+ */
+function createWorkbookExporter(outputDir: string): MetadataExporter {
+  return {
+    async writeEntity({ metadata, sheets }) {
+      const { entityName } = metadata;
+      const workbook = new ExcelJS.Workbook();
+      addSummarySheet(workbook, [
+        {
+          headers: ["Property", "Value"],
+          rows: Object.entries(
+            summaryProperties(entityName, metadata.definition)
+          ),
+        },
+        {
+          headers: ["Sheet", "Records"],
+          rows: sheets.map((sheet) => [
+            { text: sheet.title, sheet: sheet.title },
+            sheet.records.length,
+          ]),
+        },
+      ]);
+      for (const sheet of sheets) {
+        addRecordsSheet(workbook, sheet.title, sheet.records);
+      }
+
+      fs.mkdirSync(outputDir, { recursive: true });
+      const outputPath = path.join(outputDir, `${entityName}.xlsx`);
+      await workbook.xlsx.writeFile(outputPath);
+      console.log(`Wrote file: ${outputPath}`);
+    },
+    async finish() {},
+  };
+}
+
+/**
+ * Keeps every entity's sheets and writes them as one workbook, in entity name order, with an "Entity" column
+ * in front of each sheet's own columns. The Summary sheet lists each entity with its record count per sheet,
+ * linked to the entity's first row there.
+ */
+function createCombinedExporter(outputDir: string): MetadataExporter {
+  const entities = new Map<string, ProcessedEntity>();
+
+  return {
+    async writeEntity(entity) {
+      entities.set(entity.metadata.entityName, entity);
+    },
+    async finish() {
+      if (entities.size === 0) {
+        return;
+      }
+      const names = Array.from(entities.keys()).sort();
+      const titles = Array.from(
+        new Set(
+          names.flatMap((name) =>
+            entities.get(name)!.sheets.map((sheet) => sheet.title)
+          )
+        )
+      );
+      const records = (name: string, title: string) =>
+        entities
+          .get(name)!
+          .sheets.find((sheet: EntitySheet) => sheet.title === title)
+          ?.records || [];
+
+      // Each entity's rows start below the header and the rows of the entities before it.
+      const firstRows = new Map(
+        titles.map((title) => {
+          let row = 2;
+          return [
+            title,
+            names.map((name) => {
+              const first = row;
+              row += records(name, title).length;
+              return first;
+            }),
+          ];
+        })
+      );
+
+      const workbook = new ExcelJS.Workbook();
+      addSummarySheet(workbook, [
+        {
+          headers: ["Sheet", "Records"],
+          rows: titles.map((title) => [
+            { text: title, sheet: title },
+            names.reduce((sum, name) => sum + records(name, title).length, 0),
+          ]),
+        },
+        {
+          headers: ["Entity", "Display Name", ...titles],
+          rows: names.map((name, index) => [
+            name,
+            summaryProperties(name, entities.get(name)!.metadata.definition)[
+              "Display Name"
+            ],
+            ...titles.map((title) => ({
+              text: records(name, title).length,
+              sheet: title,
+              row: firstRows.get(title)![index],
+            })),
+          ]),
+        },
+      ]);
+      for (const title of titles) {
+        addRecordsSheet(
+          workbook,
+          title,
+          names.flatMap((name) =>
+            records(name, title).map((record) => ({ Entity: name, ...record }))
+          )
+        );
+      }
+
+      fs.mkdirSync(outputDir, { recursive: true });
+      const outputPath = path.join(outputDir, COMBINED_WORKBOOK);
+      await workbook.xlsx.writeFile(outputPath);
+      console.log(`Wrote file: ${outputPath} (${names.length} entities)`);
+    },
+  };
+}
+
+function createCsvExporter(outputDir: string): MetadataExporter {
+  return {
+    async writeEntity({ metadata, sheets }) {
+      const entityDir = path.join(outputDir, metadata.entityName);
+      fs.mkdirSync(entityDir, { recursive: true });
+
+      for (const sheet of sheets) {
+        const headers = recordHeaders(sheet.records);
+        const lines = [
+          headers,
+          ...sheet.records.map((record) =>
+            headers.map((header) => displayValue(record[header]))
+          ),
+        ].map((values) => values.map(csvField).join(","));
+        fs.writeFileSync(
+          path.join(entityDir, `${sheet.name}.csv`),
+          headers.length > 0 ? lines.join("\r\n") + "\r\n" : ""
+        );
+      }
+      console.log(`Wrote ${sheets.length} CSV files to ${entityDir}`);
+    },
+    async finish() {},
+  };
+}
+
+function createJsonExporter(outputDir: string): MetadataExporter {
+  return {
+    async writeEntity({ metadata, sheets }) {
+      fs.mkdirSync(outputDir, { recursive: true });
+      const outputPath = path.join(outputDir, `${metadata.entityName}.json`);
+      fs.writeFileSync(
+        outputPath,
+        JSON.stringify(
+          {
+            entityName: metadata.entityName,
+            definition: metadata.definition,
+            sheets: Object.fromEntries(
+              sheets.map((sheet) => [sheet.name, sheet.records])
+            ),
+          },
+          null,
+          2
+        )
+      );
+      console.log(`Wrote file: ${outputPath}`);
+    },
+    async finish() {},
+  };
+}
+
+/**
+ * Keeps every entity's security roles and writes the cross-entity matrix: a sheet per privilege (Create,
+ * Read, ...) with a row per role and a column per entity, in entity name order, holding the role's depth.
+ * The entities' security roles must have been fetched (see the "securityRoles" metadata part).
+ */
+function createSecurityMatrixExporter(outputDir: string): MetadataExporter {
+  const entities = new Map<string, RoleAccess[]>();
+
+  return {
+    async writeEntity({ metadata }) {
+      entities.set(metadata.entityName, metadata.securityRoles);
+    },
+    async finish() {
+      if (entities.size === 0) {
+        return;
+      }
+      const columns = Array.from(entities.keys())
+        .sort()
+        .map((entityName) => ({
+          entityName,
+          roles: entities.get(entityName)!,
+        }));
+
+      const workbook = new ExcelJS.Workbook();
+      for (const type of PRIVILEGE_TYPES) {
+        addRecordsSheet(
+          workbook,
+          privilegeColumn(type),
+          buildSecurityMatrixRecords(type, columns)
+        );
+      }
+
+      fs.mkdirSync(outputDir, { recursive: true });
+      const outputPath = path.join(outputDir, SECURITY_MATRIX_WORKBOOK);
+      await workbook.xlsx.writeFile(outputPath);
+      console.log(`Wrote file: ${outputPath} (${columns.length} entities)`);
+    },
+  };
+}
+
+const EXPORTERS: Record<OutputFormat, (outputDir: string) => MetadataExporter> =
+  {
+    xlsx: createWorkbookExporter,
+    combined: createCombinedExporter,
+    csv: createCsvExporter,
+    json: createJsonExporter,
+    security: createSecurityMatrixExporter,
+  };
+
+/**
+ * Creates an exporter that writes every entity in each of the given formats, one after the other.
+ *
+ * @param {OutputFormat[]} formats - The formats to write.
+ * @param {string} outputDir - The folder the files are written to.
+ * @returns {MetadataExporter} The exporter; call finish once the last entity has been written.
+ */
+export function createExporter(
+  formats: OutputFormat[],
+  outputDir: string
+): MetadataExporter {
+  const exporters = formats.map((format) => EXPORTERS[format](outputDir));
+
+  return {
+    async writeEntity(entity) {
+      for (const exporter of exporters) {
+        await exporter.writeEntity(entity);
+      }
+    },
+    async finish() {
+      for (const exporter of exporters) {
+        await exporter.finish();
+      }
+    },
+  };
+}
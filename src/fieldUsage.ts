@@ -0,0 +1,195 @@
+// src/fieldUsage.ts
+
+import { parseBusinessRuleXaml, RuleConditionNode } from "./businessRuleLogic";
+import { EntityMetadata } from "./entityMetadata";
+import { transformForm } from "./entityForms";
+import { transformFormLayout } from "./formLayout";
+import { localizedLabel } from "./labels";
+import { parseViewDefinition } from "./viewDetails";
+
+/**
+ * A form, view or business rule and how it uses each of the entity's fields.
+ */
+export interface ComponentUsage {
+  /** "Form", "View" or "Business Rule". */
+  kind: string;
+  name: string;
+  /** The roles each field plays in the component (e.g., "Column", "Filter"), keyed by logical name. */
+  fields: Map<string, Set<string>>;
+}
+
+/**
+ * Records that a component uses a field in the given role.
+ */
+function addUse(component: ComponentUsage, field: string, role: string) {
+  if (!field) {
+    return;
+  }
+  const roles = component.fields.get(field) || new Set<string>();
+  roles.add(role);
+  component.fields.set(field, roles);
+}
+
+function conditionFields(
+  node: RuleConditionNode | null
+): { field: string; entity: string }[] {
+  if (!node) {
+    return [];
+  }
+  return node.kind === "condition"
+    ? [{ field: node.field, entity: node.entity }]
+    : node.conditions.flatMap(conditionFields);
+}
+
+/**
+ * Finds the fields of the entity used by each of its forms (bound controls), views (columns, filters, sorts and
+ * link-entity joins on the entity itself) and business rules (conditions and actions).
+ * Definitions that cannot be parsed are skipped with a warning.
+ *
+ * @param {EntityMetadata} metadata - The entity's forms, views and business rules.
+ * @returns {Promise<ComponentUsage[]>} A promise that resolves to the usage of every form, view and business rule.
+ */
+export async function collectFieldUsage(
+  metadata: EntityMetadata
+): Promise<ComponentUsage[]> {
+  const { entityName } = metadata;
+  const components: ComponentUsage[] = [];
+
+  for (const form of metadata.forms) {
+    const formUsage: ComponentUsage = {
+      kind: "Form",
+      name: `${transformForm(form)["Form Type"]}: ${form.name}`,
+      fields: new Map(),
+    };
+    for (const row of transformFormLayout(form)) {
+      addUse(formUsage, row["Bound Attribute"], "Control");
+    }
+    components.push(formUsage);
+  }
+
+  for (const view of metadata.views) {
+    const viewUsage: ComponentUsage = {
+      kind: "View",
+      name: view.name || "",
+      fields: new Map(),
+    };
+    try {
+      const definition = await parseViewDefinition(
+        view.fetchxml,
+        view.layoutxml
+      );
+      for (const column of definition.columns) {
+        // Columns of linked entities are written "alias.attribute".
+        if (!column.name.includes(".")) {
+          addUse(viewUsage, column.name, "Column");
+        }
+      }
+      for (const condition of definition.conditions) {
+        if (condition.entity === entityName) {
+          addUse(viewUsage, condition.attribute, "Filter");
+        }
+      }
+      for (const sort of definition.sorts) {
+        if (sort.entity === entityName) {
+          addUse(viewUsage, sort.attribute, "Sort");
+        }
+      }
+      for (const link of definition.linkEntities) {
+        if (link.parent === entityName) {
+          addUse(viewUsage, link.to, "Join");
+        }
+      }
+    } catch (error: any) {
+      console.warn(
+        `Could not parse definition of view "${view.name}":`,
+        error.message
+      );
+    }
+    components.push(viewUsage);
+  }
+
+  for (const rule of metadata.businessRules) {
+    if (rule.category !== 2 || !rule.xaml) {
+      continue;
+    }
+    const ruleUsage: ComponentUsage = {
+      kind: "Business Rule",
+      name: rule.name,
+      fields: new Map(),
+    };
+    try {
+      for (const branch of await parseBusinessRuleXaml(rule.xaml)) {
+        for (const { field, entity } of conditionFields(branch.condition)) {
+          if (!entity || entity === entityName) {
+            addUse(ruleUsage, field, "Condition");
+          }
+        }
+        for (const action of branch.actions) {
+          addUse(ruleUsage, action.field, "Action");
+        }
+      }
+    } catch (error: any) {
+      console.warn(
+        `Could not parse XAML for business rule "${rule.name}":`,
+        error.message
+      );
+    }
+    components.push(ruleUsage);
+  }
+
+  return components;
+}
+
+/**
+ * Builds the "Field Usage" sheet records: one row per attribute with a column per form, view and business rule
+ * naming how the attribute is used there. Custom attributes used nowhere are flagged as cleanup candidates;
+ * system attributes and attributes that belong to another (e.g., a lookup's name) are never flagged.
+ *
+ * @param {EntityMetadata} metadata - The entity's attributes, forms, views and business rules.
+ * @returns {Promise<Record<string, any>[]>} A promise that resolves to the sheet records.
+ */
+export async function buildFieldUsageRecords(
+  metadata: EntityMetadata
+): Promise<Record<string, any>[]> {
+  const components = await collectFieldUsage(metadata);
+
+  // Column headers must be unique; repeated names get a " (2)", " (3)" suffix.
+  const headers: string[] = [];
+  for (const component of components) {
+    const baseHeader = `${component.kind}: ${component.name}`;
+    let header = baseHeader;
+    for (let n = 2; headers.includes(header); n++) {
+      header = `${baseHeader} (${n})`;
+    }
+    headers.push(header);
+  }
+
+  const records = metadata.attributes.map((attribute) => {
+    const uses = components.map((component) =>
+      Array.from(component.fields.get(attribute.LogicalName) || []).join(", ")
+    );
+    const usedIn = uses.filter(Boolean).length;
+
+    return {
+      "Logical Name": attribute.LogicalName,
+      "Display Name": localizedLabel(attribute.DisplayName),
+      Custom: attribute.IsCustomAttribute ?? "",
+      "Used In": usedIn,
+      "Cleanup Candidate":
+        usedIn === 0 && attribute.IsCustomAttribute && !attribute.AttributeOf
+          ? "Yes"
+          : "",
+      ...Object.fromEntries(headers.map((header, i) => [header, uses[i]])),
+    };
+  });
+
+  console.log(
+    `Built field usage of ${records.length} attributes across ${
+      components.length
+    } forms, views and business rules for ${metadata.entityName} (${
+      records.filter((record) => record["Cleanup Candidate"]).length
+    } cleanup candidates).`
+  );
+
+  return records;
+}
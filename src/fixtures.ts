@@ -0,0 +1,276 @@
+// src/fixtures.ts
+
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import * as fs from "fs";
+import * as path from "path";
+
+import { parseBatchResponse } from "./dataverseClient";
+
+/**
+ * The fixture file format version.
+ */
+export const FIXTURE_VERSION = 1;
+
+/**
+ * One recorded Web API response. Requests sent inside a $batch are recorded as individual GETs,
+ * so the same fixtures replay with or without batching.
+ */
+export interface RecordedResponse {
+  method: "GET";
+  /** The request path and query, without the org origin (see fixtureKey). */
+  url: string;
+  status: number;
+  /** The response headers the client reads (e.g., retry-after). */
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface FixtureFile {
+  version: number;
+  recordedAt: string;
+  responses: RecordedResponse[];
+}
+
+/** Response headers worth keeping in a fixture. */
+const KEPT_HEADERS = ["retry-after"];
+
+/**
+ * Returns the key a request is recorded and replayed under: the decoded path and query, without the origin,
+ * so fixtures recorded against one org replay against any base URL.
+ *
+ * @param {string} url - The absolute request URL.
+ * @returns {string} The key (e.g., "/api/data/v9.2/savedqueries?$filter=returnedtypecode eq 'account'").
+ */
+export function fixtureKey(url: string): string {
+  const parsed = new URL(url);
+  return decodeURIComponent(parsed.pathname + parsed.search);
+}
+
+/**
+ * Returns the URLs of the GET requests inside a $batch request body, in order.
+ */
+function batchRequestUrls(body: string): string[] {
+  return Array.from(body.matchAll(/^GET (\S+) HTTP\/1\.1/gm), (m) => m[1]);
+}
+
+function isBatch(config: InternalAxiosRequestConfig): boolean {
+  return (
+    config.method?.toLowerCase() === "post" &&
+    /\/\$batch$/.test(config.url || "")
+  );
+}
+
+function keptHeaders(headers: any): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const name of KEPT_HEADERS) {
+    const value = headers?.[name];
+    if (value !== undefined && value !== null) {
+      kept[name] = String(value);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Collects Web API responses while the client runs against a live org.
+ */
+export interface FixtureRecorder {
+  /** Pass as DataverseClientOptions.adapter; sends requests normally and records the responses. */
+  adapter: AxiosAdapter;
+  /** The responses recorded so far, in the order they were received. */
+  responses: RecordedResponse[];
+  /** Writes the recorded responses to a fixture file. */
+  save(filePath: string): string;
+}
+
+/**
+ * Creates a recorder whose adapter captures every response, including error responses such as 429,
+ * and splits $batch responses into their individual GETs.
+ *
+ * @returns {FixtureRecorder} The recorder.
+ */
+export function createFixtureRecorder(): FixtureRecorder {
+  const send = axios.getAdapter(axios.defaults.adapter);
+  const responses: RecordedResponse[] = [];
+
+  const record = (
+    config: InternalAxiosRequestConfig,
+    response: AxiosResponse
+  ) => {
+    if (isBatch(config)) {
+      const urls = batchRequestUrls(String(config.data || ""));
+      const parts = parseBatchResponse(
+        String(response.data),
+        String(response.headers["content-type"] || "")
+      );
+      parts.forEach((part, index) => {
+        if (urls[index]) {
+          responses.push({
+            method: "GET",
+            url: fixtureKey(urls[index]),
+            status: part.status,
+            headers: keptHeaders(part.headers),
+            body: part.body,
+          });
+        }
+      });
+      return;
+    }
+
+    responses.push({
+      method: "GET",
+      url: fixtureKey(config.url || ""),
+      status: response.status,
+      headers: keptHeaders(response.headers),
+      body:
+        typeof response.data === "string" && response.data
+          ? JSON.parse(response.data)
+          : response.data,
+    });
+  };
+
+  const adapter: AxiosAdapter = async (config) => {
+    try {
+      const response = await send(config);
+      record(config, response);
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        record(config, error.response);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    adapter,
+    responses,
+    save(filePath: string): string {
+      const fixtures: FixtureFile = {
+        version: FIXTURE_VERSION,
+        recordedAt: new Date().toISOString(),
+        responses,
+      };
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify(fixtures, null, 2), "utf8");
+      console.log(
+        `Wrote ${responses.length} recorded responses to ${filePath}`
+      );
+      return filePath;
+    },
+  };
+}
+
+/**
+ * Reads and validates a fixture file.
+ *
+ * @param {string} filePath - The path of the fixture file.
+ * @returns {FixtureFile} The parsed fixtures.
+ * @throws Will throw an error if the file is missing, is not JSON, or has an unsupported version.
+ */
+export function readFixtures(filePath: string): FixtureFile {
+  const fixtures: FixtureFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (fixtures.version !== FIXTURE_VERSION) {
+    throw new Error(
+      `Fixture file ${filePath} has version ${fixtures.version}; expected ${FIXTURE_VERSION}.`
+    );
+  }
+  return fixtures;
+}
+
+/**
+ * Creates an adapter that answers requests from recorded responses instead of the network.
+ * Responses recorded for the same URL are replayed in order and the last one repeats, so a recorded
+ * 429 followed by a 200 replays the throttling and then the data. $batch requests are answered part by
+ * part from the recorded GETs. Unrecorded URLs get a 404.
+ *
+ * @param {FixtureFile} fixtures - The fixtures to replay.
+ * @returns {AxiosAdapter} The adapter, for DataverseClientOptions.adapter.
+ */
+export function createReplayAdapter(fixtures: FixtureFile): AxiosAdapter {
+  const queues = new Map<string, RecordedResponse[]>();
+  for (const response of fixtures.responses) {
+    const queue = queues.get(response.url) || [];
+    queue.push(response);
+    queues.set(response.url, queue);
+  }
+
+  const take = (url: string): RecordedResponse => {
+    const key = fixtureKey(url);
+    const queue = queues.get(key);
+    if (!queue || queue.length === 0) {
+      return {
+        method: "GET",
+        url: key,
+        status: 404,
+        headers: {},
+        body: { error: { code: "0x0", message: `No fixture for ${key}` } },
+      };
+    }
+    return queue.length > 1 ? (queue.shift() as RecordedResponse) : queue[0];
+  };
+
+  return async (config) => {
+    let recorded: RecordedResponse;
+
+    if (isBatch(config)) {
+      const boundary = "batchresponse_replay";
+      const body = [
+        ...batchRequestUrls(String(config.data || "")).map((url) => {
+          const part = take(url);
+          return [
+            `--${boundary}`,
+            "Content-Type: application/http",
+            "Content-Transfer-Encoding: binary",
+            "",
+            `HTTP/1.1 ${part.status} Replayed`,
+            "Content-Type: application/json",
+            ...Object.entries(part.headers).map(
+              ([name, value]) => `${name}: ${value}`
+            ),
+            "",
+            JSON.stringify(part.body),
+            "",
+          ].join("\r\n");
+        }),
+        `--${boundary}--`,
+        "",
+      ].join("");
+      recorded = {
+        method: "GET",
+        url: fixtureKey(config.url || ""),
+        status: 200,
+        headers: { "content-type": `multipart/mixed; boundary=${boundary}` },
+        body,
+      };
+    } else {
+      recorded = take(config.url || "");
+    }
+
+    const response: AxiosResponse = {
+      data: recorded.body,
+      status: recorded.status,
+      statusText: "Replayed",
+      headers: recorded.headers,
+      config,
+      request: {},
+    };
+    if (recorded.status >= 200 && recorded.status < 300) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${recorded.status}`,
+      recorded.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      response
+    );
+  };
+}
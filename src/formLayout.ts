@@ -0,0 +1,215 @@
+// src/formLayout.ts
+
+import { EntityForm, transformForm } from "./entityForms";
+
+/**
+ * Reads a property regardless of casing ("Tabs", "tabs").
+ */
+function prop(source: any, name: string): any {
+  if (!source || typeof source !== "object") {
+    return undefined;
+  }
+  if (name in source) {
+    return source[name];
+  }
+  const lower = name.toLowerCase();
+  const key = Object.keys(source).find((k) => k.toLowerCase() === lower);
+  return key === undefined ? undefined : source[key];
+}
+
+/**
+ * formjson stores collections either as arrays or as objects keyed by name/index; returns them as an array.
+ */
+function asArray(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value);
+  }
+  return [];
+}
+
+/**
+ * Picks a display label from the shapes formjson uses: a plain string, a list of
+ * { Description | Label, LanguageCode } entries, or an object keyed by language code.
+ * English (1033) is preferred when several languages are present.
+ */
+function labelOf(element: any): string {
+  const label = prop(element, "Label") ?? prop(element, "Labels");
+  if (typeof label === "string") {
+    return label;
+  }
+
+  const entries = Array.isArray(label)
+    ? label
+    : label && typeof label === "object"
+    ? Object.entries(label).map(([code, text]) =>
+        typeof text === "string"
+          ? { LanguageCode: Number(code), Description: text }
+          : text
+      )
+    : [];
+
+  const english =
+    entries.find(
+      (entry: any) => Number(prop(entry, "LanguageCode")) === 1033
+    ) || entries[0];
+  return String(prop(english, "Description") ?? prop(english, "Label") ?? "");
+}
+
+/**
+ * Renders a tri-state flag: "Yes"/"No" when the form sets it, blank when it inherits the default.
+ */
+function flag(value: any): string {
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+  return value === true || value === "true" || value === 1 ? "Yes" : "No";
+}
+
+/**
+ * Walks a form's formjson and returns one record per tab, section and control in form order.
+ *
+ * @param {EntityForm} form - A raw systemform record including formjson.
+ * @returns {Record<string, any>[]} The layout rows for the form; empty if formjson is missing or invalid.
+ */
+export function transformFormLayout(form: EntityForm): Record<string, any>[] {
+  let layout: any;
+  try {
+    layout =
+      typeof form.formjson === "string"
+        ? JSON.parse(form.formjson)
+        : form.formjson;
+  } catch (error: any) {
+    console.warn(
+      `Could not parse formjson for form "${form.name}":`,
+      error.message
+    );
+    return [];
+  }
+  if (!layout) {
+    return [];
+  }
+
+  const formName = form.name || "";
+  const formType = transformForm(form)["Form Type"];
+  const rows: Record<string, any>[] = [];
+
+  const row = (values: Record<string, any>) =>
+    rows.push({
+      Form: formName,
+      "Form Type": formType,
+      Level: "",
+      Order: "",
+      Tab: "",
+      Section: "",
+      "Control Id": "",
+      "Bound Attribute": "",
+      Label: "",
+      Visible: "",
+      "Read-Only": "",
+      Required: "",
+      ...values,
+    });
+
+  const addCells = (
+    container: any,
+    order: string,
+    tabName: string,
+    sectionName: string
+  ) => {
+    let controlIndex = 0;
+    for (const sourceRow of asArray(prop(container, "Rows"))) {
+      for (const cell of asArray(prop(sourceRow, "Cells"))) {
+        const control = prop(cell, "Control");
+        if (!control) {
+          continue;
+        }
+        controlIndex++;
+        row({
+          Level: "Control",
+          Order: `${order}.${controlIndex}`,
+          Tab: tabName,
+          Section: sectionName,
+          "Control Id": prop(control, "Id") ?? prop(cell, "Id") ?? "",
+          "Bound Attribute": prop(control, "DataFieldName") ?? "",
+          Label: labelOf(cell) || labelOf(control),
+          Visible: flag(prop(cell, "Visible") ?? prop(control, "Visible")),
+          "Read-Only": flag(
+            prop(control, "Disabled") ?? prop(control, "IsReadOnly")
+          ),
+          Required: flag(
+            prop(control, "IsRequired") ??
+              prop(control, "Required") ??
+              prop(cell, "IsRequired")
+          ),
+        });
+      }
+    }
+  };
+
+  const header = prop(layout, "Header");
+  if (header) {
+    row({ Level: "Section", Order: "0", Section: "Header" });
+    addCells(header, "0", "", "Header");
+  }
+
+  asArray(prop(layout, "Tabs")).forEach((tab: any, tabIndex: number) => {
+    const tabOrder = `${tabIndex + 1}`;
+    const tabName = prop(tab, "Name") || "";
+    row({
+      Level: "Tab",
+      Order: tabOrder,
+      Tab: tabName,
+      Label: labelOf(tab),
+      Visible: flag(prop(tab, "Visible")),
+    });
+
+    let sectionIndex = 0;
+    for (const column of asArray(prop(tab, "Columns"))) {
+      for (const section of asArray(prop(column, "Sections"))) {
+        sectionIndex++;
+        const sectionOrder = `${tabOrder}.${sectionIndex}`;
+        const sectionName = prop(section, "Name") || "";
+        row({
+          Level: "Section",
+          Order: sectionOrder,
+          Tab: tabName,
+          Section: sectionName,
+          Label: labelOf(section),
+          Visible: flag(prop(section, "Visible")),
+        });
+        addCells(section, sectionOrder, tabName, sectionName);
+      }
+    }
+  });
+
+  const footer = prop(layout, "Footer");
+  if (footer) {
+    const footerOrder = `${asArray(prop(layout, "Tabs")).length + 1}`;
+    row({ Level: "Section", Order: footerOrder, Section: "Footer" });
+    addCells(footer, footerOrder, "", "Footer");
+  }
+
+  return rows;
+}
+
+/**
+ * Builds the "Form Layout" sheet records, listing every tab, section and control of each form in order.
+ *
+ * @param {string} entityName - The name of the entity whose forms are being added.
+ * @param {EntityForm[]} rawForms - The forms returned by fetchEntityForms, including formjson.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildFormLayoutRecords(
+  entityName: string,
+  rawForms: EntityForm[]
+): Record<string, any>[] {
+  const transformed = rawForms.flatMap(transformFormLayout);
+  console.log(
+    `Built ${transformed.length} layout rows from ${rawForms.length} forms for ${entityName}.`
+  );
+
+  return transformed;
+}
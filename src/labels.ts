@@ -0,0 +1,21 @@
+// src/labels.ts
+
+import { Label, OptionMetadata } from "./types/crm";
+
+/**
+ * Returns the user's localized text of a metadata Label, falling back to the first localized label.
+ */
+export function localizedLabel(label: Label | null | undefined): string {
+  return (
+    label?.UserLocalizedLabel?.Label ?? label?.LocalizedLabels?.[0]?.Label ?? ""
+  );
+}
+
+/**
+ * Formats option set options as "value: label" pairs separated by semicolons.
+ */
+export function formatOptions(options: OptionMetadata[] | undefined): string {
+  return (options || [])
+    .map((option) => `${option.Value}: ${localizedLabel(option.Label)}`)
+    .join("; ");
+}
@@ -0,0 +1,383 @@
+// src/metadataDiff.ts
+
+import * as ExcelJS from "exceljs";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+import { EntityMetadata, MetadataPart } from "./entityMetadata";
+import { formatSheet } from "./excel";
+import { transformAttribute } from "./entityColumns";
+import { transformRelationship } from "./entityRelationships";
+import { transformForm } from "./entityForms";
+import { transformView } from "./entityViews";
+import { transformBusinessRule } from "./entityBusinessRules";
+
+export type ChangeType = "Added" | "Removed" | "Changed";
+
+/**
+ * A column, relationship, form, view or rule that differs between the source and the target.
+ */
+export interface MetadataChange {
+  entity: string;
+  /** The sheet the component is listed on (e.g., "Columns"). */
+  component: string;
+  /** The name the component is matched by (e.g., the attribute logical name). */
+  key: string;
+  change: ChangeType;
+  /** The compared record in the source; missing for added components. */
+  source?: Record<string, any>;
+  /** The compared record in the target; missing for removed components. */
+  target?: Record<string, any>;
+  /** The properties whose values differ; empty for added and removed components. */
+  changedFields: string[];
+}
+
+/**
+ * The metadata parts diffEntityMetadata compares; the others need not be fetched for a comparison.
+ */
+export const DIFF_PARTS: MetadataPart[] = [
+  "attributes",
+  "relationships",
+  "forms",
+  "views",
+  "businessRules",
+];
+
+/**
+ * How one kind of component is compared.
+ */
+interface DiffComponent<T> {
+  component: string;
+  records: (metadata: EntityMetadata) => T[];
+  transform: (record: T) => Record<string, any>;
+  key: (transformed: Record<string, any>) => string;
+  definition?: (record: T) => string | null | undefined;
+}
+
+/**
+ * A component spec with its record type applied: the compared rows of an entity's metadata, so specs over
+ * different record types share one list.
+ */
+interface ComparedComponent {
+  component: string;
+  rows: (metadata: EntityMetadata) => Record<string, any>[];
+  key: (transformed: Record<string, any>) => string;
+}
+
+/**
+ * Applies a component spec to its record type: each record is transformed, and components with a stored
+ * definition also get a Definition fingerprint.
+ */
+function diffComponent<T>(spec: DiffComponent<T>): ComparedComponent {
+  return {
+    component: spec.component,
+    key: spec.key,
+    rows: (metadata) =>
+      spec.records(metadata).map((record) => {
+        const row = spec.transform(record);
+        if (spec.definition) {
+          row.Definition = fingerprint(spec.definition(record));
+        }
+        return row;
+      }),
+  };
+}
+
+/**
+ * How each kind of component is compared: the records come from the same transforms as the export sheets,
+ * and components with a stored definition (formjson, fetchxml/layoutxml, xaml) also compare a fingerprint of it.
+ */
+const diffComponents: ComparedComponent[] = [
+  diffComponent({
+    component: "Columns",
+    records: (metadata) => metadata.attributes,
+    transform: transformAttribute,
+    key: (row) => row["Logical Name"],
+  }),
+  diffComponent({
+    component: "Relationships",
+    records: (metadata) => metadata.relationships,
+    transform: transformRelationship,
+    key: (row) => row["Schema Name"],
+  }),
+  diffComponent({
+    component: "Forms",
+    records: (metadata) => metadata.forms,
+    transform: transformForm,
+    key: (row) => `${row["Form Type"]}: ${row.Name}`,
+    definition: (form) => form.formjson,
+  }),
+  diffComponent({
+    component: "Views",
+    records: (metadata) => metadata.views,
+    transform: transformView,
+    key: (row) => row.Name,
+    definition: (view) =>
+      view.fetchxml || view.layoutxml
+        ? `${view.fetchxml || ""}\n${view.layoutxml || ""}`
+        : undefined,
+  }),
+  diffComponent({
+    component: "Business Rules",
+    records: (metadata) => metadata.businessRules,
+    transform: transformBusinessRule,
+    key: (row) => row.Name,
+    definition: (rule) => rule.xaml,
+  }),
+];
+
+/**
+ * The sheets of a diff workbook after the summary, in order.
+ */
+export const DIFF_COMPONENTS = diffComponents.map(({ component }) => component);
+
+/**
+ * Returns a short, stable fingerprint of a definition so changed XML/JSON shows up without dumping it into a cell.
+ */
+function fingerprint(text: string | null | undefined): string {
+  if (!text) {
+    return "";
+  }
+  return crypto.createHash("sha1").update(text).digest("hex").slice(0, 12);
+}
+
+/**
+ * Keys a component's compared rows by name. Duplicate names get a " (2)", " (3)" suffix so neither is lost.
+ */
+function keyRecords(
+  spec: ComparedComponent,
+  metadata: EntityMetadata
+): Map<string, Record<string, any>> {
+  const keyed = new Map<string, Record<string, any>>();
+
+  for (const row of spec.rows(metadata)) {
+    const baseKey = String(spec.key(row) ?? "");
+    let key = baseKey;
+    for (let n = 2; keyed.has(key); n++) {
+      key = `${baseKey} (${n})`;
+    }
+    keyed.set(key, row);
+  }
+
+  return keyed;
+}
+
+/**
+ * Compares two values as they would appear in a cell.
+ */
+function sameValue(a: any, b: any): boolean {
+  return String(a ?? "") === String(b ?? "");
+}
+
+/**
+ * Compares the metadata of one entity in two environments (or two snapshots).
+ * Components are matched by name; "Added" means present only in the target, "Removed" present only in the source.
+ *
+ * @param {EntityMetadata} source - The metadata treated as the baseline.
+ * @param {EntityMetadata} target - The metadata compared against the baseline.
+ * @returns {MetadataChange[]} The differences, grouped by component and sorted by name.
+ */
+export function diffEntityMetadata(
+  source: EntityMetadata,
+  target: EntityMetadata
+): MetadataChange[] {
+  const entity = source.entityName || target.entityName;
+  const changes: MetadataChange[] = [];
+
+  for (const spec of diffComponents) {
+    const sourceRecords = keyRecords(spec, source);
+    const targetRecords = keyRecords(spec, target);
+    const keys = Array.from(
+      new Set([...sourceRecords.keys(), ...targetRecords.keys()])
+    ).sort();
+
+    for (const key of keys) {
+      const before = sourceRecords.get(key);
+      const after = targetRecords.get(key);
+
+      if (!before || !after) {
+        changes.push({
+          entity,
+          component: spec.component,
+          key,
+          change: before ? "Removed" : "Added",
+          source: before,
+          target: after,
+          changedFields: [],
+        });
+        continue;
+      }
+
+      const changedFields = Array.from(
+        new Set([...Object.keys(before), ...Object.keys(after)])
+      ).filter((field) => !sameValue(before[field], after[field]));
+
+      if (changedFields.length > 0) {
+        changes.push({
+          entity,
+          component: spec.component,
+          key,
+          change: "Changed",
+          source: before,
+          target: after,
+          changedFields,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+const changeFills: Record<ChangeType, string> = {
+  Added: "FFC6EFCE",
+  Removed: "FFFFC7CE",
+  Changed: "FFFFEB9C",
+};
+
+function fill(argb: string): ExcelJS.Fill {
+  return { type: "pattern", pattern: "solid", fgColor: { argb } };
+}
+
+/**
+ * Writes a diff workbook: a "Summary" sheet with counts per entity and component, then one sheet per component.
+ * Added rows are green and removed rows red; in changed rows only the differing cells are highlighted (yellow),
+ * showing the target value with the source value in the cell note.
+ *
+ * @param {MetadataChange[]} changes - The differences returned by diffEntityMetadata.
+ * @param {string[]} entities - The compared entities, listed on the summary even when unchanged.
+ * @param {{ source: string; target: string }} labels - Names for the two sides (profile names or snapshot paths).
+ * @param {string} outputPath - The path the workbook is written to.
+ * @returns {Promise<string>} A promise that resolves to the path of the saved workbook.
+ * @throws Will throw an error if writing the workbook fails.
+ */
+export async function writeDiffWorkbook(
+  changes: MetadataChange[],
+  entities: string[],
+  labels: { source: string; target: string },
+  outputPath: string
+): Promise<string> {
+  const workbook = new ExcelJS.Workbook();
+
+  const summary = workbook.addWorksheet("Summary");
+  summary.columns = [
+    { header: "Entity", key: "Entity" },
+    { header: "Component", key: "Component" },
+    { header: "Added", key: "Added" },
+    { header: "Removed", key: "Removed" },
+    { header: "Changed", key: "Changed" },
+  ];
+  summary.addRow({
+    Entity: `Source: ${labels.source}`,
+    Component: `Target: ${labels.target}`,
+  });
+
+  for (const entity of entities) {
+    for (const component of DIFF_COMPONENTS) {
+      const matching = changes.filter(
+        (change) => change.entity === entity && change.component === component
+      );
+      const count = (type: ChangeType) =>
+        matching.filter((change) => change.change === type).length;
+      summary.addRow({
+        Entity: entity,
+        Component: component,
+        Added: count("Added"),
+        Removed: count("Removed"),
+        Changed: count("Changed"),
+      });
+    }
+  }
+
+  for (const component of DIFF_COMPONENTS) {
+    const rows = changes.filter((change) => change.component === component);
+    const worksheet = workbook.addWorksheet(component);
+
+    const fields = Array.from(
+      new Set(
+        rows.flatMap((change) => [
+          ...Object.keys(change.source || {}),
+          ...Object.keys(change.target || {}),
+        ])
+      )
+    );
+    worksheet.columns = ["Entity", "Change", "Name", ...fields].map((key) => ({
+      header: key,
+      key,
+    }));
+
+    for (const change of rows) {
+      const values = change.target || change.source || {};
+      const row = worksheet.addRow({
+        ...values,
+        Entity: change.entity,
+        Change: change.change,
+        Name: change.key,
+      });
+
+      if (change.change !== "Changed") {
+        for (let i = 1; i <= worksheet.columnCount; i++) {
+          row.getCell(i).fill = fill(changeFills[change.change]);
+        }
+        continue;
+      }
+
+      row.getCell("Change").fill = fill(changeFills.Changed);
+      for (const field of change.changedFields) {
+        const cell = row.getCell(field);
+        cell.fill = fill(changeFills.Changed);
+        cell.note = `${labels.source}: ${String(change.source?.[field] ?? "")}`;
+      }
+    }
+  }
+  workbook.worksheets.forEach(formatSheet);
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  await workbook.xlsx.writeFile(outputPath);
+  console.log(`Wrote file: ${outputPath}`);
+
+  return outputPath;
+}
+
+/**
+ * Formats differences as a plain-text report, grouped by entity: "+" added, "-" removed, "~" changed
+ * (with the source and target values of each changed property).
+ *
+ * @param {MetadataChange[]} changes - The differences returned by diffEntityMetadata.
+ * @returns {string} The report, or a single line saying there are no differences.
+ */
+export function formatChangeReport(changes: MetadataChange[]): string {
+  if (changes.length === 0) {
+    return "No differences found.";
+  }
+
+  const symbols: Record<ChangeType, string> = {
+    Added: "+",
+    Removed: "-",
+    Changed: "~",
+  };
+  const lines: string[] = [];
+  let entity: string | undefined;
+
+  for (const change of changes) {
+    if (change.entity !== entity) {
+      entity = change.entity;
+      lines.push(entity);
+    }
+
+    const details = change.changedFields.map(
+      (field) =>
+        `${field}: ${String(change.source?.[field] ?? "")} -> ${String(
+          change.target?.[field] ?? ""
+        )}`
+    );
+    lines.push(
+      `  ${change.component}: ${symbols[change.change]} ${change.key}${
+        details.length > 0 ? ` (${details.join("; ")})` : ""
+      }`
+    );
+  }
+
+  return lines.join("\n");
+}
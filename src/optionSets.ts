@@ -0,0 +1,225 @@
+// src/optionSets.ts
+
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as path from "path";
+
+import { DataverseClient } from "./dataverseClient";
+import { EntityMetadata } from "./entityMetadata";
+import { addRecordsSheet, addSummarySheet } from "./excel";
+import { localizedLabel } from "./labels";
+import {
+  Attribute,
+  BooleanOptionSetMetadata,
+  OptionMetadata,
+  OptionSetMetadata,
+} from "./types/crm";
+
+/** The file the global choice catalogue is written to, in the output folder. */
+export const CHOICES_WORKBOOK = "choices.xlsx";
+
+/**
+ * A global choice as returned by fetchGlobalOptionSets: a picklist option set, or a Yes/No one.
+ */
+export type GlobalOptionSet = OptionSetMetadata | BooleanOptionSetMetadata;
+
+/**
+ * Fetches every global choice (option set) in the org, with its options.
+ *
+ * @param {DataverseClient} client - The Dataverse Web API client.
+ * @returns {Promise<GlobalOptionSet[]>} A promise that resolves to the global choices.
+ * @throws Will throw an error if the request fails.
+ */
+export async function fetchGlobalOptionSets(
+  client: DataverseClient
+): Promise<GlobalOptionSet[]> {
+  return client.getAll<GlobalOptionSet>("GlobalOptionSetDefinitions");
+}
+
+/**
+ * Returns the options of an option set; a Yes/No option set has its No option first.
+ */
+function optionsOf(optionSet: GlobalOptionSet): OptionMetadata[] {
+  if ("TrueOption" in optionSet) {
+    return [optionSet.FalseOption, optionSet.TrueOption].filter(Boolean);
+  }
+  return optionSet.Options || [];
+}
+
+/**
+ * Returns the option set of an attribute, preferring the expanded global choice over the attribute's copy.
+ */
+function attributeOptionSet(attribute: Attribute): GlobalOptionSet | null {
+  return attribute.GlobalOptionSet || attribute.OptionSet || null;
+}
+
+/**
+ * Returns the attributes of the processed entities that use each global choice, as "entity.attribute".
+ *
+ * @param {EntityMetadata[]} entities - The fetched metadata, including attributes.
+ * @returns {Map<string, string[]>} The attributes by global choice name, in entity and attribute order.
+ */
+export function globalChoiceUsage(
+  entities: EntityMetadata[]
+): Map<string, string[]> {
+  const usage = new Map<string, string[]>();
+
+  for (const { entityName, attributes } of entities) {
+    for (const attribute of attributes) {
+      const optionSet = attributeOptionSet(attribute);
+      if (optionSet?.IsGlobal && optionSet.Name) {
+        usage.set(optionSet.Name, [
+          ...(usage.get(optionSet.Name) || []),
+          `${entityName}.${attribute.LogicalName}`,
+        ]);
+      }
+    }
+  }
+
+  return usage;
+}
+
+/**
+ * Transforms an option into its columns of a values sheet.
+ */
+function optionColumns(option: OptionMetadata): Record<string, any> {
+  return {
+    Value: option.Value,
+    Label: localizedLabel(option.Label),
+    Color: option.Color || "",
+    Description: localizedLabel(option.Description),
+    "External Value": option.ExternalValue || "",
+  };
+}
+
+/**
+ * Builds the "Global Choices" sheet records: every global choice, by name, with the processed attributes
+ * that use it.
+ *
+ * @param {GlobalOptionSet[]} optionSets - The choices returned by fetchGlobalOptionSets.
+ * @param {Map<string, string[]>} usage - The attributes using each choice (see globalChoiceUsage).
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildGlobalChoicesRecords(
+  optionSets: GlobalOptionSet[],
+  usage: Map<string, string[]>
+): Record<string, any>[] {
+  return [...optionSets]
+    .sort((a, b) => a.Name.localeCompare(b.Name))
+    .map((optionSet) => ({
+      Name: optionSet.Name,
+      "Display Name": localizedLabel(optionSet.DisplayName),
+      Description: localizedLabel(optionSet.Description),
+      Type: optionSet.OptionSetType,
+      Custom: optionSet.IsCustomOptionSet ?? "",
+      Managed: optionSet.IsManaged ?? "",
+      Values: optionsOf(optionSet).length,
+      "Used By": (usage.get(optionSet.Name) || []).join(", "),
+    }));
+}
+
+/**
+ * Builds the "Global Choice Values" sheet records: the options of every global choice, by choice name and
+ * then in the choice's own order.
+ *
+ * @param {GlobalOptionSet[]} optionSets - The choices returned by fetchGlobalOptionSets.
+ * @returns {Record<string, any>[]} The sheet records.
+ */
+export function buildGlobalChoiceValuesRecords(
+  optionSets: GlobalOptionSet[]
+): Record<string, any>[] {
+  return [...optionSets]
+    .sort((a, b) => a.Name.localeCompare(b.Name))
+    .flatMap((optionSet) =>
+      optionsOf(optionSet).map((option) => ({
+        Choice: optionSet.Name,
+        ...optionColumns(option),
+      }))
+    );
+}
+
+/**
+ * Builds the "Local Choices" sheet records: the options of every option set that belongs to a single
+ * attribute of a processed entity, each row naming the entity and attribute it belongs to.
+ *
+ * @param {EntityMetadata[]} entities - The fetched metadata, including attributes.
+ * @returns {Record<string, any>[]} The sheet records, in entity and attribute order.
+ */
+export function buildLocalChoicesRecords(
+  entities: EntityMetadata[]
+): Record<string, any>[] {
+  return [...entities]
+    .sort((a, b) => a.entityName.localeCompare(b.entityName))
+    .flatMap(({ entityName, attributes }) =>
+      [...attributes]
+        .sort((a, b) => a.LogicalName.localeCompare(b.LogicalName))
+        .flatMap((attribute) => {
+          const optionSet = attributeOptionSet(attribute);
+          if (!optionSet || optionSet.IsGlobal) {
+            return [];
+          }
+          return optionsOf(optionSet).map((option) => ({
+            Entity: entityName,
+            Attribute: attribute.LogicalName,
+            "Option Set": optionSet.Name,
+            Type: optionSet.OptionSetType,
+            ...optionColumns(option),
+          }));
+        })
+    );
+}
+
+/**
+ * Writes the choice catalogue of a run: every global choice with the processed attributes that use it, the
+ * values of the global choices, and the local choices of the processed entities by owning attribute. A
+ * Summary sheet links to each sheet with its record count.
+ *
+ * @param {GlobalOptionSet[]} optionSets - The choices returned by fetchGlobalOptionSets.
+ * @param {EntityMetadata[]} entities - The fetched metadata of the processed entities, including attributes.
+ * @param {string} outputDir - The folder the workbook is written to.
+ * @returns {Promise<string>} The path of the written workbook.
+ * @throws Will throw an error if writing the workbook fails.
+ */
+export async function writeChoicesWorkbook(
+  optionSets: GlobalOptionSet[],
+  entities: EntityMetadata[],
+  outputDir: string
+): Promise<string> {
+  const sheets = [
+    {
+      title: "Global Choices",
+      records: buildGlobalChoicesRecords(
+        optionSets,
+        globalChoiceUsage(entities)
+      ),
+    },
+    {
+      title: "Global Choice Values",
+      records: buildGlobalChoiceValuesRecords(optionSets),
+    },
+    { title: "Local Choices", records: buildLocalChoicesRecords(entities) },
+  ];
+
+  const workbook = new ExcelJS.Workbook();
+  addSummarySheet(workbook, [
+    {
+      headers: ["Sheet", "Records"],
+      rows: sheets.map((sheet) => [
+        { text: sheet.title, sheet: sheet.title },
+        sheet.records.length,
+      ]),
+    },
+  ]);
+  for (const sheet of sheets) {
+    addRecordsSheet(workbook, sheet.title, sheet.records);
+  }
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  const outputPath = path.join(outputDir, CHOICES_WORKBOOK);
+  await workbook.xlsx.writeFile(outputPath);
+  console.log(
+    `Wrote file: ${outputPath} (${optionSets.length} global choices)`
+  );
+
+  return outputPath;
+}
@@ -1,37 +1,241 @@
 // src/processEntity.ts
 
-import * as ExcelJS from "exceljs";
-import { addColumnsSheet } from "./entityColumns";
-import { addRelationshipsSheet } from "./entityRelationships";
-import { addFormsSheet } from "./entityForms";
-import { addViewsSheet } from "./entityViews";
-import { addBusinessRulesSheet } from "./entityBusinessRules";
+import { buildEntityRecords } from "./entityDefinition";
+import { buildColumnsRecords } from "./entityColumns";
+import { buildKeysRecords } from "./entityKeys";
+import { buildRelationshipsRecords } from "./entityRelationships";
+import { buildFormsRecords } from "./entityForms";
+import { buildFormLayoutRecords } from "./formLayout";
+import { buildViewsRecords } from "./entityViews";
+import { buildViewDetailsRecords } from "./viewDetails";
+import { buildBusinessRulesRecords } from "./entityBusinessRules";
+import { buildBusinessRuleLogicRecords } from "./businessRuleLogic";
+import { buildFieldUsageRecords } from "./fieldUsage";
+import { buildAutomationRecords } from "./entityAutomation";
+import { buildSecurityRecords } from "./entitySecurity";
+import { DataverseClient } from "./dataverseClient";
+import {
+  EntityMetadata,
+  fetchEntityMetadata,
+  MetadataPart,
+  METADATA_PARTS,
+} from "./entityMetadata";
+import { MetadataExporter } from "./exporters";
+import { ColumnStatsOptions, profileColumns } from "./columnStats";
 
 /**
- * Orchestrates the process of fetching, transforming, and exporting all entity-related data (columns, relationships, forms, views, and business rules) to an Excel workbook.
+ * The sheets that can be included in an entity workbook, in the order they are written.
+ */
+export const SHEET_NAMES = [
+  "entity",
+  "columns",
+  "keys",
+  "relationships",
+  "forms",
+  "formlayout",
+  "views",
+  "viewdetails",
+  "businessrules",
+  "businessrulelogic",
+  "fieldusage",
+  "automation",
+  "security",
+] as const;
+
+export type SheetName = (typeof SHEET_NAMES)[number];
+
+/**
+ * The title of each sheet, the metadata parts it is built from, and how its records are built.
+ */
+const SHEETS: Record<
+  SheetName,
+  {
+    title: string;
+    parts: MetadataPart[];
+    build: (
+      metadata: EntityMetadata
+    ) => Record<string, any>[] | Promise<Record<string, any>[]>;
+  }
+> = {
+  entity: {
+    title: "Entity",
+    parts: [],
+    build: (m) => buildEntityRecords(m.entityName, m.definition),
+  },
+  columns: {
+    title: "Columns",
+    parts: ["attributes"],
+    build: (m) =>
+      buildColumnsRecords(m.entityName, m.attributes, m.columnStats),
+  },
+  keys: {
+    title: "Keys",
+    parts: ["keys"],
+    build: (m) => buildKeysRecords(m.entityName, m.keys),
+  },
+  relationships: {
+    title: "Relationships",
+    parts: ["relationships"],
+    build: (m) => buildRelationshipsRecords(m.entityName, m.relationships),
+  },
+  forms: {
+    title: "Forms",
+    parts: ["forms"],
+    build: (m) => buildFormsRecords(m.entityName, m.forms),
+  },
+  formlayout: {
+    title: "Form Layout",
+    parts: ["forms"],
+    build: (m) => buildFormLayoutRecords(m.entityName, m.forms),
+  },
+  views: {
+    title: "Views",
+    parts: ["views"],
+    build: (m) => buildViewsRecords(m.entityName, m.views),
+  },
+  viewdetails: {
+    title: "View Details",
+    parts: ["views"],
+    build: (m) => buildViewDetailsRecords(m.entityName, m.views),
+  },
+  businessrules: {
+    title: "Business Rules",
+    parts: ["businessRules"],
+    build: (m) => buildBusinessRulesRecords(m.entityName, m.businessRules),
+  },
+  businessrulelogic: {
+    title: "Business Rule Logic",
+    parts: ["businessRules"],
+    build: (m) => buildBusinessRuleLogicRecords(m.entityName, m.businessRules),
+  },
+  fieldusage: {
+    title: "Field Usage",
+    parts: ["attributes", "forms", "views", "businessRules"],
+    build: buildFieldUsageRecords,
+  },
+  automation: {
+    title: "Automation",
+    parts: ["processes", "pluginSteps"],
+    build: (m) =>
+      buildAutomationRecords(m.entityName, m.processes, m.pluginSteps),
+  },
+  security: {
+    title: "Security",
+    parts: ["securityRoles"],
+    build: (m) => buildSecurityRecords(m.entityName, m.securityRoles),
+  },
+};
+
+/**
+ * The transformed records of one sheet. Every output (workbook, docs site) is written from these.
+ */
+export interface EntitySheet {
+  name: SheetName;
+  title: string;
+  records: Record<string, any>[];
+}
+
+/**
+ * An entity's raw metadata together with the sheets built from it.
+ */
+export interface ProcessedEntity {
+  metadata: EntityMetadata;
+  sheets: EntitySheet[];
+}
+
+/**
+ * Options controlling which sheets are built for an entity and where they are written.
+ */
+export interface ProcessEntityOptions {
+  /** Writes the built sheets (see createExporter). */
+  exporter: MetadataExporter;
+  /** The sheets to build. */
+  sheets: SheetName[];
+  /** Metadata to fetch even if the selected sheets do not use it (e.g., everything for a snapshot). */
+  extraParts?: MetadataPart[];
+  /** Profile how the columns are populated from live records (adds population columns to the Columns sheet). */
+  columnStats?: ColumnStatsOptions;
+}
+
+/**
+ * Transforms already-fetched entity metadata (from Dataverse or a snapshot) into sheet records.
+ *
+ * @param {EntityMetadata} metadata - The raw metadata of the entity.
+ * @param {SheetName[]} sheets - The sheets to build, in SHEET_NAMES order.
+ * @returns {Promise<EntitySheet[]>} A promise that resolves to the built sheets.
+ */
+export async function buildEntitySheets(
+  metadata: EntityMetadata,
+  sheets: SheetName[]
+): Promise<EntitySheet[]> {
+  const built: EntitySheet[] = [];
+
+  for (const name of SHEET_NAMES.filter((sheet) => sheets.includes(sheet))) {
+    const { title, build } = SHEETS[name];
+    built.push({ name, title, records: await build(metadata) });
+  }
+
+  return built;
+}
+
+/**
+ * Builds the sheets from already-fetched metadata and hands them to the exporter.
+ *
+ * @param {EntityMetadata} metadata - The raw metadata of the entity.
+ * @param {ProcessEntityOptions} options - The exporter and sheets to include.
+ * @returns {Promise<ProcessedEntity>} A promise that resolves to the metadata and built sheets once they are written.
+ * @throws Will throw an error if writing the output fails.
+ */
+export async function exportEntityMetadata(
+  metadata: EntityMetadata,
+  options: ProcessEntityOptions
+): Promise<ProcessedEntity> {
+  const processed = {
+    metadata,
+    sheets: await buildEntitySheets(metadata, options.sheets),
+  };
+  await options.exporter.writeEntity(processed);
+
+  return processed;
+}
+
+/**
+ * Orchestrates the process of fetching, transforming, and exporting all entity-related data (entity properties, columns, alternate keys, relationships, forms and their layout, views and their definitions, business rules and their logic, field usage, automation, security) through the exporter.
+ * Only the metadata the selected sheets (and extraParts) need is fetched.
  *
- * @param {string} accessToken - The OAuth2 access token for authentication.
+ * @param {DataverseClient} client - The Dataverse Web API client.
  * @param {string} entityName - The name of the entity to process.
- * @returns {Promise<void>} A promise that resolves when the process is complete and the workbook is saved.
+ * @param {ProcessEntityOptions} options - The exporter and sheets to include.
+ * @returns {Promise<ProcessedEntity>} A promise that resolves to the fetched metadata and built sheets once they are written.
  * @throws Will throw an error if any step of the process fails.
  */
 export async function processEntityAll(
-  accessToken: string,
-  entityName: string
-) {
-  //Create an in-memory workbook
-  const workbook = new ExcelJS.Workbook();
-
-  //Add the Columns sheet
-  //    a) fetch columns
-  const orgUrl = "https://org0b26dba9.crm.dynamics.com/api/data/v9.2";
-
-  await addColumnsSheet(workbook, entityName, accessToken, orgUrl);
-  await addRelationshipsSheet(workbook, entityName, accessToken, orgUrl);
-  await addFormsSheet(workbook, entityName, accessToken, orgUrl);
-  await addViewsSheet(workbook, entityName, accessToken, orgUrl);
-  await addBusinessRulesSheet(workbook, entityName, accessToken, orgUrl);
-  // 4) Save the final workbook
-  await workbook.xlsx.writeFile(`./outputs/${entityName}.xlsx`);
-  console.log(`Wrote file: ./outputs/${entityName}.xlsx`);
+  client: DataverseClient,
+  entityName: string,
+  options: ProcessEntityOptions
+): Promise<ProcessedEntity> {
+  const parts = METADATA_PARTS.filter(
+    (part) =>
+      options.extraParts?.includes(part) ||
+      (part === "attributes" && options.columnStats) ||
+      options.sheets.some((sheet) => SHEETS[sheet].parts.includes(part))
+  );
+
+  const metadata = await fetchEntityMetadata(entityName, client, parts);
+  if (options.columnStats) {
+    try {
+      metadata.columnStats = await profileColumns(
+        client,
+        entityName,
+        metadata.attributes,
+        options.columnStats
+      );
+    } catch (error: any) {
+      console.warn(
+        `Could not profile the columns of ${entityName}:`,
+        error.response?.data || error.message
+      );
+    }
+  }
+  return exportEntityMetadata(metadata, options);
 }
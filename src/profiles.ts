@@ -0,0 +1,207 @@
+// src/profiles.ts
+
+import * as fs from "fs";
+
+/**
+ * The default location of the profile config file, relative to the working directory.
+ */
+export const DEFAULT_PROFILES_FILE = "./dynamics.profiles.json";
+
+/**
+ * Connection settings for one Dynamics 365 environment (e.g., dev, test, prod).
+ */
+export interface EnvironmentProfile {
+  /** The profile name as it appears in the config file. */
+  name: string;
+  /** The root URL of the organization (e.g., "https://org0b26dba9.crm.dynamics.com"). */
+  orgUrl: string;
+  /** The Azure AD tenant ID. */
+  tenantId: string;
+  /** The application (client) ID of the app registration. */
+  clientId: string;
+  /**
+   * Where the client secret is read from: "env:VARIABLE" reads an environment variable,
+   * "file:path" reads the trimmed contents of a file. The secret itself never lives in the config file.
+   */
+  clientSecretRef?: string;
+  /**
+   * Path of a PEM file holding the app registration's certificate; when set, certificate-based
+   * client credentials are used instead of the client secret.
+   */
+  certificatePath?: string;
+  /** Path of the PEM private key for the certificate; defaults to certificatePath (combined PEM). */
+  privateKeyPath?: string;
+  /** Secret reference ("env:NAME" or "file:path") for the private key passphrase, if it is encrypted. */
+  privateKeyPassphraseRef?: string;
+  /** The Azure AD token endpoint to use: "v2" (.default scopes, the default) or the legacy "v1" (resource). */
+  authority?: "v1" | "v2";
+  /** The Web API version (e.g., "9.2"). */
+  apiVersion: string;
+}
+
+/**
+ * The shape of the profile config file.
+ */
+export interface ProfilesFile {
+  defaultProfile?: string;
+  profiles: Record<string, Omit<EnvironmentProfile, "name">>;
+}
+
+/**
+ * Reads and validates a profile config file.
+ *
+ * @param {string} filePath - The path of the JSON profile config file.
+ * @returns {ProfilesFile} The parsed config.
+ * @throws Will throw an error if the file cannot be read or is not a valid profile config.
+ */
+export function readProfilesFile(filePath: string): ProfilesFile {
+  const config = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  if (!config || typeof config.profiles !== "object") {
+    throw new Error(`Profile config ${filePath} has no "profiles" object.`);
+  }
+
+  return config as ProfilesFile;
+}
+
+/**
+ * Selects a profile from the config file and fills in defaults.
+ *
+ * @param {string} filePath - The path of the JSON profile config file.
+ * @param {string} [profileName] - The profile to select; falls back to the file's defaultProfile.
+ * @returns {EnvironmentProfile} The selected profile.
+ * @throws Will throw an error if the profile does not exist or is missing required settings.
+ */
+export function loadProfile(
+  filePath: string,
+  profileName?: string
+): EnvironmentProfile {
+  const config = readProfilesFile(filePath);
+  const name = profileName ?? config.defaultProfile;
+
+  if (!name) {
+    throw new Error(
+      `No profile selected and ${filePath} has no "defaultProfile".`
+    );
+  }
+
+  const entry = config.profiles[name];
+  if (!entry) {
+    throw new Error(
+      `Profile "${name}" not found in ${filePath}. Available: ${Object.keys(
+        config.profiles
+      ).join(", ")}`
+    );
+  }
+
+  const missing = (["orgUrl", "tenantId", "clientId"] as const).filter(
+    (key) => !entry[key]
+  );
+  if (missing.length > 0) {
+    throw new Error(`Profile "${name}" is missing: ${missing.join(", ")}`);
+  }
+  if (!entry.clientSecretRef && !entry.certificatePath) {
+    throw new Error(
+      `Profile "${name}" needs either clientSecretRef or certificatePath.`
+    );
+  }
+  if (entry.authority && !["v1", "v2"].includes(entry.authority)) {
+    throw new Error(
+      `Profile "${name}" has an unsupported authority "${entry.authority}"; use "v1" or "v2".`
+    );
+  }
+
+  return {
+    ...entry,
+    name,
+    orgUrl: entry.orgUrl.replace(/\/+$/, ""),
+    apiVersion: String(entry.apiVersion ?? "9.2").replace(/^v/i, ""),
+  };
+}
+
+/**
+ * Builds a profile from the TENANT_ID, CLIENT_ID and CLIENT_SECRET (or CLIENT_CERTIFICATE_PATH)
+ * environment variables, used when no profile config file is present.
+ *
+ * @param {string} orgUrl - The root URL of the organization.
+ * @param {string} apiVersion - The Web API version.
+ * @returns {EnvironmentProfile} A profile named "env".
+ */
+export function profileFromEnvironment(
+  orgUrl: string,
+  apiVersion: string
+): EnvironmentProfile {
+  return {
+    name: "env",
+    orgUrl: orgUrl.replace(/\/+$/, ""),
+    tenantId: process.env.TENANT_ID ?? "",
+    clientId: process.env.CLIENT_ID ?? "",
+    clientSecretRef: "env:CLIENT_SECRET",
+    certificatePath: process.env.CLIENT_CERTIFICATE_PATH || undefined,
+    apiVersion: apiVersion.replace(/^v/i, ""),
+  };
+}
+
+/**
+ * Resolves a secret reference: "env:NAME" reads an environment variable, "file:path" reads a file.
+ *
+ * @param {EnvironmentProfile} profile - The profile the reference belongs to (used in error messages).
+ * @param {string} ref - The secret reference.
+ * @returns {string} The secret.
+ * @throws Will throw an error if the reference is malformed or resolves to nothing.
+ */
+export function resolveSecretRef(
+  profile: EnvironmentProfile,
+  ref: string
+): string {
+  let secret: string | undefined;
+  if (ref.startsWith("env:")) {
+    secret = process.env[ref.slice(4)];
+  } else if (ref.startsWith("file:")) {
+    secret = fs.readFileSync(ref.slice(5), "utf8").trim();
+  } else {
+    throw new Error(
+      `Profile "${profile.name}" has an unsupported secret reference "${ref}"; use "env:NAME" or "file:path".`
+    );
+  }
+
+  if (!secret) {
+    throw new Error(`Secret for profile "${profile.name}" is empty (${ref}).`);
+  }
+  return secret;
+}
+
+/**
+ * Resolves a profile's client secret reference.
+ *
+ * @param {EnvironmentProfile} profile - The profile whose secret should be read.
+ * @returns {string} The client secret.
+ * @throws Will throw an error if the reference is missing, malformed or resolves to nothing.
+ */
+export function resolveClientSecret(profile: EnvironmentProfile): string {
+  if (!profile.clientSecretRef) {
+    throw new Error(`Profile "${profile.name}" has no clientSecretRef.`);
+  }
+  return resolveSecretRef(profile, profile.clientSecretRef);
+}
+
+/**
+ * Returns the Web API base URL for a profile (e.g., "https://org0b26dba9.crm.dynamics.com/api/data/v9.2").
+ */
+export function getWebApiUrl(profile: EnvironmentProfile): string {
+  return `${profile.orgUrl}/api/data/v${profile.apiVersion}`;
+}
+
+/**
+ * Returns the OAuth2 resource that tokens for a profile are requested for (v1 endpoint).
+ */
+export function getResource(profile: EnvironmentProfile): string {
+  return profile.orgUrl;
+}
+
+/**
+ * Returns the OAuth2 scope that tokens for a profile are requested for (v2.0 endpoint).
+ */
+export function getScope(profile: EnvironmentProfile): string {
+  return `${getResource(profile)}/.default`;
+}
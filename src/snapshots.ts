@@ -0,0 +1,152 @@
+// src/snapshots.ts
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { EntityMetadata, emptyEntityMetadata } from "./entityMetadata";
+import { EnvironmentProfile } from "./profiles";
+
+/**
+ * The snapshot file format version. Bump it only when EntityMetadata changes in a way older snapshots would be
+ * misread under (a part renamed or reshaped), and raise MIN_SNAPSHOT_VERSION with it. New parts and fields
+ * do not need a bump: readSnapshot fills the parts an older snapshot lacks with empty lists.
+ */
+export const SNAPSHOT_VERSION = 5;
+
+/**
+ * The oldest snapshot version that can still be read. Versions 3 to 5 differ only by added parts; versions 1
+ * and 2 also saved every workflow of an entity as its business rules, which readSnapshot filters down to
+ * the rules (category 2).
+ */
+const MIN_SNAPSHOT_VERSION = 1;
+
+/** The first version whose businessRules hold business rules only. */
+const BUSINESS_RULES_ONLY_VERSION = 3;
+
+/** The workflow category of business rules. */
+const BUSINESS_RULE_CATEGORY = 2;
+
+/**
+ * The raw metadata of a run, saved as JSON so it can be diffed or turned into workbooks later without Dataverse.
+ */
+export interface MetadataSnapshot {
+  version: number;
+  /** When the metadata was fetched (ISO 8601). */
+  createdAt: string;
+  profile: string;
+  orgUrl: string;
+  apiVersion: string;
+  entities: EntityMetadata[];
+}
+
+/**
+ * Creates a snapshot of the metadata fetched from an environment.
+ *
+ * @param {EnvironmentProfile} profile - The environment the metadata came from.
+ * @param {EntityMetadata[]} entities - The fetched metadata, one entry per entity.
+ * @returns {MetadataSnapshot} The snapshot, stamped with the current time.
+ */
+export function createSnapshot(
+  profile: EnvironmentProfile,
+  entities: EntityMetadata[]
+): MetadataSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    profile: profile.name,
+    orgUrl: profile.orgUrl,
+    apiVersion: profile.apiVersion,
+    entities: [...entities].sort((a, b) =>
+      a.entityName.localeCompare(b.entityName)
+    ),
+  };
+}
+
+/**
+ * Writes a snapshot to "<dir>/<profile>-<timestamp>.json", so every run keeps its own file.
+ *
+ * @param {MetadataSnapshot} snapshot - The snapshot to save.
+ * @param {string} snapshotDir - The folder snapshots are kept in.
+ * @returns {string} The path of the saved snapshot.
+ * @throws Will throw an error if the file cannot be written.
+ */
+export function writeSnapshot(
+  snapshot: MetadataSnapshot,
+  snapshotDir: string
+): string {
+  const timestamp = snapshot.createdAt
+    .replace(/[-:]/g, "")
+    .replace(/\..*$/, "");
+  const outputPath = path.join(
+    snapshotDir,
+    `${snapshot.profile}-${timestamp}Z.json`
+  );
+
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(snapshot, null, 2), "utf8");
+  console.log(`Wrote snapshot: ${outputPath}`);
+
+  return outputPath;
+}
+
+/**
+ * Reads and validates a snapshot file.
+ *
+ * @param {string} filePath - The path of the snapshot.
+ * @returns {MetadataSnapshot} The parsed snapshot.
+ * @throws Will throw an error if the file is missing, is not JSON, or has an unsupported version.
+ */
+export function readSnapshot(filePath: string): MetadataSnapshot {
+  let snapshot: MetadataSnapshot;
+  try {
+    snapshot = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error: any) {
+    throw new Error(`Could not read snapshot ${filePath}: ${error.message}`);
+  }
+
+  if (
+    !Number.isInteger(snapshot.version) ||
+    snapshot.version < MIN_SNAPSHOT_VERSION ||
+    snapshot.version > SNAPSHOT_VERSION
+  ) {
+    throw new Error(
+      `Snapshot ${filePath} has version ${snapshot.version}; expected ${MIN_SNAPSHOT_VERSION} to ${SNAPSHOT_VERSION}.`
+    );
+  }
+  if (!Array.isArray(snapshot.entities)) {
+    throw new Error(`Snapshot ${filePath} has no entities.`);
+  }
+
+  // Older snapshots lack the parts added since; they read as empty, like parts a run did not fetch.
+  const rulesOnly = snapshot.version >= BUSINESS_RULES_ONLY_VERSION;
+  return {
+    ...snapshot,
+    entities: snapshot.entities.map((entity) => ({
+      ...emptyEntityMetadata(entity.entityName),
+      ...entity,
+      businessRules: rulesOnly
+        ? entity.businessRules ?? []
+        : (entity.businessRules ?? []).filter(
+            (rule) => rule.category === BUSINESS_RULE_CATEGORY
+          ),
+    })),
+  };
+}
+
+/**
+ * Returns the metadata of an entity in a snapshot, or empty metadata if the snapshot does not contain it,
+ * so an entity that exists on only one side diffs as entirely added or removed.
+ *
+ * @param {MetadataSnapshot} snapshot - The snapshot to look in.
+ * @param {string} entityName - The logical name of the entity.
+ * @returns {EntityMetadata} The entity's metadata.
+ */
+export function snapshotEntity(
+  snapshot: MetadataSnapshot,
+  entityName: string
+): EntityMetadata {
+  return (
+    snapshot.entities.find((entity) => entity.entityName === entityName) ||
+    emptyEntityMetadata(entityName)
+  );
+}
@@ -1,21 +1,507 @@
-export interface EntityView {
+// src/types/crm.ts
+
+/**
+ * The properties of a record named in a $select list. Fetchers declare their select lists with
+ * `satisfies readonly (keyof T)[]` and return Selected records, so a misspelled or unselected
+ * property is a compile error instead of a blank column.
+ */
+export type Selected<T, Fields extends readonly (keyof T)[]> = Pick<
+  T,
+  Fields[number]
+>;
+
+// ---------------------------------------------------------------------------
+// Shared metadata types
+// ---------------------------------------------------------------------------
+
+export interface LocalizedLabel {
+  Label: string;
+  LanguageCode: number;
+  IsManaged?: boolean;
+  MetadataId?: string;
+}
+
+export interface Label {
+  LocalizedLabels: LocalizedLabel[];
+  UserLocalizedLabel: LocalizedLabel | null;
+}
+
+/**
+ * A managed property such as IsCustomizable: the value and whether a solution may change it.
+ */
+export interface BooleanManagedProperty {
+  Value: boolean;
+  CanBeChanged: boolean;
+  ManagedPropertyLogicalName: string;
+}
+
+export interface AttributeRequiredLevelManagedProperty {
+  Value: "None" | "SystemRequired" | "ApplicationRequired" | "Recommended";
+  CanBeChanged: boolean;
+  ManagedPropertyLogicalName: string;
+}
+
+export interface OptionMetadata {
+  Value: number;
+  Label: Label;
+  Description?: Label;
+  Color?: string | null;
+  ExternalValue?: string | null;
+  IsManaged?: boolean;
+}
+
+export interface OptionSetMetadataBase {
+  Name: string;
+  IsGlobal: boolean;
+  OptionSetType: "Picklist" | "State" | "Status" | "Boolean";
+  DisplayName?: Label;
+  Description?: Label;
+  IsCustomOptionSet?: boolean;
+  IsManaged?: boolean;
+  MetadataId?: string;
+}
+
+export interface OptionSetMetadata extends OptionSetMetadataBase {
+  Options: OptionMetadata[];
+}
+
+export interface BooleanOptionSetMetadata extends OptionSetMetadataBase {
+  TrueOption: OptionMetadata;
+  FalseOption: OptionMetadata;
+}
+
+// ---------------------------------------------------------------------------
+// EntityDefinitions
+// ---------------------------------------------------------------------------
+
+/**
+ * An EntityDefinitions record (the Web API EntityMetadata type, named apart from ./entityMetadata).
+ */
+export interface EntityDefinition {
+  MetadataId: string;
+  LogicalName: string;
+  SchemaName: string;
+  EntitySetName: string;
+  ObjectTypeCode: number;
+  DisplayName: Label;
+  DisplayCollectionName: Label;
+  Description: Label;
+  PrimaryIdAttribute: string;
+  PrimaryNameAttribute: string;
+  OwnershipType: string;
+  IsCustomEntity: boolean;
+  IsIntersect: boolean;
+  IsActivity: boolean;
+  IsManaged: boolean;
+  IsCustomizable: BooleanManagedProperty;
+  IsAuditEnabled: BooleanManagedProperty;
+  ChangeTrackingEnabled: boolean;
+  HasActivities: boolean;
+  HasNotes: boolean;
+  IsDuplicateDetectionEnabled: BooleanManagedProperty;
+  IsAvailableOffline: boolean;
+  IsQuickCreateEnabled: boolean;
+  IsConnectionsEnabled: BooleanManagedProperty;
+  IsBusinessProcessEnabled: boolean;
+  /** "Standard", "Activity", "Virtual" or "Elastic". */
+  TableType: string;
+  Privileges: SecurityPrivilegeMetadata[];
+}
+
+/**
+ * An alternate key of an entity, as returned by EntityDefinitions(...)/Keys.
+ */
+export interface EntityKeyMetadata {
+  MetadataId: string;
+  LogicalName: string;
+  SchemaName: string;
+  DisplayName: Label;
+  /** The logical names of the attributes that make up the key. */
+  KeyAttributes: string[];
+  /** The state of the key's index: "Pending", "InProgress", "Active" or "Failed". */
+  EntityKeyIndexStatus: string;
+  IsManaged: boolean;
+  IsCustomizable: BooleanManagedProperty;
+}
+
+/**
+ * One of the privileges an entity defines (e.g., prvCreateAccount), from EntityDefinitions(...).Privileges.
+ */
+export interface SecurityPrivilegeMetadata {
+  PrivilegeId: string;
+  Name: string;
+  /** "Create", "Read", "Write", "Delete", "Assign", "Share", "Append" or "AppendTo". */
+  PrivilegeType: string;
+  CanBeBasic: boolean;
+  CanBeLocal: boolean;
+  CanBeDeep: boolean;
+  CanBeGlobal: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Attributes
+// ---------------------------------------------------------------------------
+
+/**
+ * The properties every attribute has, as returned by EntityDefinitions(...)/Attributes.
+ */
+export interface AttributeMetadata {
+  "@odata.type"?: string;
+  MetadataId: string;
+  LogicalName: string;
+  SchemaName: string;
+  EntityLogicalName: string;
+  AttributeType: string;
+  AttributeTypeName: { Value: string } | null;
+  AttributeOf: string | null;
+  DisplayName: Label;
+  Description: Label;
+  IsCustomAttribute: boolean;
+  IsCustomizable: BooleanManagedProperty;
+  IsManaged: boolean;
+  IsPrimaryId: boolean;
+  IsPrimaryName: boolean;
+  IsLogical: boolean;
+  IsSecured: boolean;
+  IsValidForCreate: boolean;
+  IsValidForRead: boolean;
+  IsValidForUpdate: boolean;
+  IsAuditEnabled: BooleanManagedProperty;
+  RequiredLevel: AttributeRequiredLevelManagedProperty;
+}
+
+/**
+ * How a column's value is produced: 0 simple, 1 calculated, 2 rollup, 3 formula.
+ */
+export interface FormulaAttributeMetadata {
+  FormulaDefinition: string | null;
+  SourceType: number | null;
+}
+
+export interface EnumAttributeMetadata extends AttributeMetadata {
+  OptionSet: OptionSetMetadata | null;
+  GlobalOptionSet: OptionSetMetadata | null;
+  DefaultFormValue?: number | null;
+}
+
+export interface PicklistAttributeMetadata
+  extends EnumAttributeMetadata,
+    FormulaAttributeMetadata {}
+
+export interface MultiSelectPicklistAttributeMetadata
+  extends EnumAttributeMetadata,
+    FormulaAttributeMetadata {}
+
+export interface StatusAttributeMetadata extends EnumAttributeMetadata {}
+
+export interface StateAttributeMetadata extends EnumAttributeMetadata {}
+
+export interface BooleanAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  OptionSet: BooleanOptionSetMetadata | null;
+  DefaultValue: boolean | null;
+}
+
+export interface LookupAttributeMetadata extends AttributeMetadata {
+  Targets: string[];
+  Format: string | null;
+}
+
+export interface StringAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  MaxLength: number;
+  DatabaseLength: number;
+  Format: string;
+}
+
+export interface MemoAttributeMetadata extends AttributeMetadata {
+  MaxLength: number;
+  Format: string;
+}
+
+export interface DecimalAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  Precision: number;
+  MinValue: number;
+  MaxValue: number;
+}
+
+export interface MoneyAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  Precision: number;
+  PrecisionSource: number;
+  MinValue: number;
+  MaxValue: number;
+}
+
+export interface DoubleAttributeMetadata extends AttributeMetadata {
+  Precision: number;
+  MinValue: number;
+  MaxValue: number;
+}
+
+export interface IntegerAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  Format: string;
+  MinValue: number;
+  MaxValue: number;
+}
+
+export interface BigIntAttributeMetadata extends AttributeMetadata {
+  MinValue: number;
+  MaxValue: number;
+}
+
+export interface DateTimeAttributeMetadata
+  extends AttributeMetadata,
+    FormulaAttributeMetadata {
+  Format: string;
+  DateTimeBehavior: { Value: string } | null;
+}
+
+/**
+ * An attribute with the type-specific properties of its metadata cast merged in (see fetchEntityAttributes).
+ * Which of the optional properties are set depends on the attribute type.
+ */
+export interface Attribute extends AttributeMetadata {
+  OptionSet?: OptionSetMetadata | BooleanOptionSetMetadata | null;
+  GlobalOptionSet?: OptionSetMetadata | null;
+  Targets?: string[];
+  MaxLength?: number;
+  Format?: string | null;
+  Precision?: number;
+  MinValue?: number;
+  MaxValue?: number;
+  FormulaDefinition?: string | null;
+  SourceType?: number | null;
+}
+
+/**
+ * An attribute as read from a metadata cast: its logical name and the type-specific properties of Attribute.
+ */
+export type AttributeCastDetails = Pick<Attribute, "LogicalName"> &
+  Omit<Attribute, keyof AttributeMetadata>;
+
+// ---------------------------------------------------------------------------
+// Relationships
+// ---------------------------------------------------------------------------
+
+export interface AssociatedMenuConfiguration {
+  Behavior: string;
+  Group: string;
+  Label: Label;
+  Order: number | null;
+  IsCustomizable: boolean;
+}
+
+export interface CascadeConfiguration {
+  Assign: string;
+  Delete: string;
+  Archive: string;
+  Merge: string;
+  Reparent: string;
+  Share: string;
+  Unshare: string;
+  RollupView: string;
+}
+
+export interface RelationshipMetadataBase {
+  MetadataId: string;
+  SchemaName: string;
+  SecurityTypes: string;
+  IsManaged: boolean;
+  IsCustomRelationship: boolean;
+  IsCustomizable: BooleanManagedProperty;
+  IsValidForAdvancedFind: boolean;
+}
+
+export interface OneToManyRelationshipMetadata
+  extends RelationshipMetadataBase {
+  RelationshipType: "OneToManyRelationship";
+  ReferencedAttribute: string;
+  ReferencedEntity: string;
+  ReferencingAttribute: string;
+  ReferencingEntity: string;
+  IsHierarchical: boolean;
+  RelationshipBehavior?: number;
+  AssociatedMenuConfiguration: AssociatedMenuConfiguration;
+  CascadeConfiguration: CascadeConfiguration;
+  ReferencedEntityNavigationPropertyName: string;
+  ReferencingEntityNavigationPropertyName: string;
+}
+
+export interface ManyToManyRelationshipMetadata
+  extends RelationshipMetadataBase {
+  RelationshipType: "ManyToManyRelationship";
+  Entity1LogicalName: string;
+  Entity2LogicalName: string;
+  IntersectEntityName: string;
+  Entity1IntersectAttribute: string;
+  Entity2IntersectAttribute: string;
+  Entity1NavigationPropertyName: string;
+  Entity2NavigationPropertyName: string;
+  Entity1AssociatedMenuConfiguration: AssociatedMenuConfiguration;
+  Entity2AssociatedMenuConfiguration: AssociatedMenuConfiguration;
+}
+
+/**
+ * A relationship from any of the three relationship collections; RelationshipType tells them apart.
+ * ManyToOneRelationships are one-to-many relationships seen from the referencing side.
+ */
+export type RelationshipMetadata =
+  | OneToManyRelationshipMetadata
+  | ManyToManyRelationshipMetadata;
+
+// ---------------------------------------------------------------------------
+// Table records
+// ---------------------------------------------------------------------------
+
+/**
+ * A systemform record.
+ */
+export interface SystemForm {
+  formid: string;
+  name: string;
+  description: string | null;
+  objecttypecode: string;
+  /** The form type (2 = Main, 6 = Quick View, 7 = Quick Create, ...). */
+  type: number;
+  formactivationstate: number;
+  formpresentationstate: number | null;
+  componentstate: number;
+  isairmerged: boolean | null;
+  isdefault: boolean;
+  ismanaged: boolean;
+  iscustomizable: BooleanManagedProperty;
+  /** The form definition as a JSON string. */
+  formjson: string | null;
+  formxml: string | null;
+}
+
+/**
+ * A savedquery (system view) record.
+ */
+export interface SavedQuery {
+  savedqueryid: string;
   name: string;
-  description?: string;
+  description: string | null;
   returnedtypecode: string;
+  querytype: number;
+  componentstate: number;
   isdefault: boolean;
   ismanaged: boolean;
-  fetchxml: string;
-  layoutxml: string;
-  layoutjson: string;
-  iscustomizable: boolean;
+  iscustomizable: BooleanManagedProperty;
+  fetchxml: string | null;
+  layoutxml: string | null;
+  layoutjson: string | null;
+}
+
+/**
+ * A workflow record: classic workflows, business rules (category 2), actions, flows and so on.
+ */
+export interface Workflow {
+  workflowid: string;
+  name: string;
+  description: string | null;
+  primaryentity: string;
+  category: number;
+  type: number;
+  scope: number;
+  mode: number;
+  statecode: number;
+  statuscode: number;
+  ismanaged: boolean;
+  iscustomizable: BooleanManagedProperty;
+  xaml: string | null;
+  /** Cloud flows: the flow definition (triggers and actions) as JSON. */
+  clientdata: string | null;
+  /** Actions: the message name the action is called by. */
+  uniquename: string | null;
+  triggeroncreate: boolean;
+  triggerondelete: boolean;
+  /** Comma-separated attributes whose update starts the workflow; null when updates do not. */
+  triggeronupdateattributelist: string | null;
+  ondemand: boolean;
+  subprocess: boolean;
+}
+
+/**
+ * An sdkmessage record: a Dataverse message (Create, Update, an action's unique name, ...).
+ */
+export interface SdkMessage {
+  sdkmessageid: string;
+  name: string;
+}
+
+/**
+ * A plugintype record: a plug-in class in a registered assembly.
+ */
+export interface PluginType {
+  plugintypeid: string;
+  typename: string;
+  name: string;
+  assemblyname: string;
+}
+
+/**
+ * An sdkmessageprocessingstep record: a plug-in (or service endpoint) registered on a message.
+ */
+export interface SdkMessageProcessingStep {
+  sdkmessageprocessingstepid: string;
+  name: string;
+  description: string | null;
+  /** 10 = Pre-validation, 20 = Pre-operation, 30 = Main operation, 40 = Post-operation. */
+  stage: number;
+  /** 0 = Synchronous, 1 = Asynchronous. */
+  mode: number;
+  rank: number;
+  /** Comma-separated attributes an Update step is limited to; null for every attribute. */
+  filteringattributes: string | null;
+  statecode: number;
+  ismanaged: boolean;
+  ishidden: BooleanManagedProperty;
+  asyncautodelete: boolean;
+  /** The plug-in type or service endpoint that handles the step. */
+  _eventhandler_value: string | null;
+  sdkmessageid?: SdkMessage | null;
+  plugintypeid?: PluginType | null;
+}
+
+/**
+ * A role record: a security role in one business unit (copies of a role are kept for each child business unit).
+ */
+export interface Role {
+  roleid: string;
+  name: string;
+  ismanaged: boolean;
+  /** The root business unit's copy of the role; null for that copy itself. */
+  _parentroleid_value: string | null;
+  _businessunitid_value: string;
 }
 
+/**
+ * A roleprivileges record: a privilege granted to a role, at the depths in privilegedepthmask
+ * (1 = User, 2 = Business Unit, 4 = Parent: Child Business Units, 8 = Organization).
+ */
+export interface RolePrivilege {
+  roleprivilegeid: string;
+  roleid: string;
+  privilegeid: string;
+  privilegedepthmask: number;
+}
+
+/**
+ * A business rule as returned by fetchEntityBusinessRules: a workflow with IsCustomizable flattened.
+ */
 export interface BusinessRule {
   name: string;
-  description?: string;
   primaryentity: string;
-  xaml?: string;
-  clientdata?: string;
+  xaml?: string | null;
   scope: number;
   ismanaged: boolean;
   iscustomizable: boolean;
@@ -24,3 +510,18 @@ export interface BusinessRule {
   type: number;
   category: number;
 }
+
+export interface Solution {
+  solutionid: string;
+  uniquename: string;
+  friendlyname: string;
+  version: string;
+  ismanaged: boolean;
+}
+
+export interface SolutionComponent {
+  solutioncomponentid: string;
+  objectid: string;
+  /** The component type (1 = Entity, 2 = Attribute, ...). */
+  componenttype: number;
+}
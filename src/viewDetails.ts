@@ -0,0 +1,284 @@
+// src/viewDetails.ts
+
+import { parseStringPromise } from "xml2js";
+
+import { EntityView } from "./entityViews";
+
+type XmlNode = {
+  "#name": string;
+  $?: Record<string, string>;
+  $$?: XmlNode[];
+  _?: string;
+};
+
+/**
+ * A filter condition from FetchXML, with the chain of and/or groups it is nested in.
+ */
+export interface ViewCondition {
+  /** The entity logical name, or the link-entity alias, the condition applies to. */
+  entity: string;
+  attribute: string;
+  operator: string;
+  values: string[];
+  /** The enclosing filter groups, outermost first (e.g., "and > or #2"). */
+  group: string;
+}
+
+/**
+ * A linked entity joined into the view's query.
+ */
+export interface ViewLinkEntity {
+  name: string;
+  alias: string;
+  from: string;
+  to: string;
+  linkType: string;
+  /** The alias (or name) of the entity this one is linked from. */
+  parent: string;
+}
+
+export interface ViewSort {
+  entity: string;
+  attribute: string;
+  descending: boolean;
+}
+
+export interface ViewColumn {
+  name: string;
+  width: number | "";
+}
+
+/**
+ * The parsed definition of a saved query.
+ */
+export interface ViewDefinition {
+  conditions: ViewCondition[];
+  linkEntities: ViewLinkEntity[];
+  sorts: ViewSort[];
+  columns: ViewColumn[];
+}
+
+function children(node: XmlNode, name?: string): XmlNode[] {
+  return (node.$$ || []).filter((child) => !name || child["#name"] === name);
+}
+
+const xmlOptions = {
+  explicitChildren: true,
+  preserveChildrenOrder: true,
+  explicitRoot: false,
+};
+
+/**
+ * Collects conditions from a <filter> element and its nested filters.
+ * Nested filters are numbered within their parent, so "and > or #2" is the second nested or-group.
+ */
+function collectFilter(
+  filter: XmlNode,
+  entity: string,
+  path: string[],
+  index: number,
+  conditions: ViewCondition[]
+) {
+  const type = (filter.$?.type || "and").toLowerCase();
+  const group = [...path, index > 0 ? `${type} #${index}` : type];
+
+  let nested = 0;
+  for (const child of children(filter)) {
+    if (child["#name"] === "condition") {
+      const attrs = child.$ || {};
+      const listValues = children(child, "value").map((v) =>
+        (v._ || "").trim()
+      );
+      conditions.push({
+        entity: attrs.entityname || entity,
+        attribute: attrs.attribute || "",
+        operator: attrs.operator || "",
+        values: attrs.value !== undefined ? [attrs.value] : listValues,
+        group: group.join(" > "),
+      });
+    } else if (child["#name"] === "filter") {
+      nested++;
+      collectFilter(child, entity, group, nested, conditions);
+    }
+  }
+}
+
+/**
+ * Walks an <entity> or <link-entity> element, collecting its filters, sorts and nested link-entities.
+ */
+function collectEntity(
+  node: XmlNode,
+  entityKey: string,
+  definition: ViewDefinition
+) {
+  for (const child of children(node)) {
+    switch (child["#name"]) {
+      case "filter":
+        collectFilter(child, entityKey, [], 0, definition.conditions);
+        break;
+      case "order":
+        definition.sorts.push({
+          entity: entityKey,
+          attribute: child.$?.attribute || child.$?.alias || "",
+          descending: child.$?.descending === "true",
+        });
+        break;
+      case "link-entity": {
+        const attrs = child.$ || {};
+        const key = attrs.alias || attrs.name || "";
+        definition.linkEntities.push({
+          name: attrs.name || "",
+          alias: attrs.alias || "",
+          from: attrs.from || "",
+          to: attrs.to || "",
+          linkType: attrs["link-type"] || "inner",
+          parent: entityKey,
+        });
+        collectEntity(child, key, definition);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Parses a view's FetchXML and layoutxml into its filter conditions, linked entities, sort order and displayed columns.
+ *
+ * @param {string} [fetchXml] - The savedquery fetchxml.
+ * @param {string} [layoutXml] - The savedquery layoutxml.
+ * @returns {Promise<ViewDefinition>} A promise that resolves to the parsed definition.
+ * @throws Will throw an error if either document is not well-formed XML.
+ */
+export async function parseViewDefinition(
+  fetchXml?: string | null,
+  layoutXml?: string | null
+): Promise<ViewDefinition> {
+  const definition: ViewDefinition = {
+    conditions: [],
+    linkEntities: [],
+    sorts: [],
+    columns: [],
+  };
+
+  if (fetchXml) {
+    const fetch: XmlNode = await parseStringPromise(fetchXml, xmlOptions);
+    for (const entity of children(fetch, "entity")) {
+      collectEntity(entity, entity.$?.name || "", definition);
+    }
+  }
+
+  if (layoutXml) {
+    const grid: XmlNode = await parseStringPromise(layoutXml, xmlOptions);
+    for (const row of children(grid, "row")) {
+      for (const cell of children(row, "cell")) {
+        const width = Number(cell.$?.width);
+        definition.columns.push({
+          name: cell.$?.name || "",
+          width: Number.isNaN(width) ? "" : width,
+        });
+      }
+    }
+  }
+
+  return definition;
+}
+
+/**
+ * Transforms a parsed view definition into rows for Excel export: columns first, then filters, linked entities and sorts.
+ *
+ * @param {string} viewName - The view name.
+ * @param {ViewDefinition} definition - The definition returned by parseViewDefinition.
+ * @returns {Record<string, any>[]} The rows for the "View Details" sheet.
+ */
+export function transformViewDetails(
+  viewName: string,
+  definition: ViewDefinition
+): Record<string, any>[] {
+  const blank = {
+    View: viewName,
+    "Detail Type": "",
+    Order: "",
+    "Entity / Alias": "",
+    Attribute: "",
+    Operator: "",
+    Value: "",
+    Grouping: "",
+    Width: "",
+  };
+
+  return [
+    ...definition.columns.map((column, index) => {
+      const dot = column.name.indexOf(".");
+      return {
+        ...blank,
+        "Detail Type": "Column",
+        Order: index + 1,
+        "Entity / Alias": dot === -1 ? "" : column.name.slice(0, dot),
+        Attribute: dot === -1 ? column.name : column.name.slice(dot + 1),
+        Width: column.width,
+      };
+    }),
+    ...definition.conditions.map((condition, index) => ({
+      ...blank,
+      "Detail Type": "Filter",
+      Order: index + 1,
+      "Entity / Alias": condition.entity,
+      Attribute: condition.attribute,
+      Operator: condition.operator,
+      Value: condition.values.join(", "),
+      Grouping: condition.group,
+    })),
+    ...definition.linkEntities.map((link, index) => ({
+      ...blank,
+      "Detail Type": "Link Entity",
+      Order: index + 1,
+      "Entity / Alias": link.alias ? `${link.name} (${link.alias})` : link.name,
+      Attribute: `${link.alias || link.name}.${link.from} = ${link.parent}.${
+        link.to
+      }`,
+      Operator: link.linkType,
+    })),
+    ...definition.sorts.map((sort, index) => ({
+      ...blank,
+      "Detail Type": "Sort",
+      Order: index + 1,
+      "Entity / Alias": sort.entity,
+      Attribute: sort.attribute,
+      Operator: sort.descending ? "Descending" : "Ascending",
+    })),
+  ];
+}
+
+/**
+ * Builds the "View Details" sheet records, breaking each view into its columns, filters, linked entities and sort order.
+ * Views whose definition cannot be parsed are skipped with a warning.
+ *
+ * @param {string} entityName - The name of the entity whose views are being added.
+ * @param {EntityView[]} rawViews - The views returned by fetchEntityViews, including fetchxml and layoutxml.
+ * @returns {Promise<Record<string, any>[]>} A promise that resolves to the sheet records.
+ */
+export async function buildViewDetailsRecords(
+  entityName: string,
+  rawViews: EntityView[]
+): Promise<Record<string, any>[]> {
+  const transformed: Record<string, any>[] = [];
+  for (const view of rawViews) {
+    try {
+      const definition = await parseViewDefinition(
+        view.fetchxml,
+        view.layoutxml
+      );
+      transformed.push(...transformViewDetails(view.name || "", definition));
+    } catch (error: any) {
+      console.warn(
+        `Could not parse definition of view "${view.name}":`,
+        error.message
+      );
+    }
+  }
+  console.log(
+    `Built ${transformed.length} detail rows from ${rawViews.length} views for ${entityName}.`
+  );
+
+  return transformed;
+}
@@ -0,0 +1,248 @@
+// test/columnStats.test.ts
+
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+
+import { profileColumns } from "../src/columnStats";
+import {
+  createBatchingClient,
+  createDataverseClient,
+  DataverseClient,
+} from "../src/dataverseClient";
+import { createReplayAdapter, RecordedResponse } from "../src/fixtures";
+import { Attribute } from "../src/types/crm";
+
+const API = "/api/data/v9.2";
+
+function response(url: string, body: any, status = 200): RecordedResponse {
+  return { method: "GET", url: `${API}/${url}`, status, headers: {}, body };
+}
+
+function label(text: string) {
+  return {
+    LocalizedLabels: [{ Label: text, LanguageCode: 1033 }],
+    UserLocalizedLabel: { Label: text, LanguageCode: 1033 },
+  };
+}
+
+function attribute(
+  LogicalName: string,
+  AttributeType: string,
+  details: Partial<Attribute> = {}
+): Attribute {
+  return {
+    LogicalName,
+    AttributeType,
+    AttributeTypeName: null,
+    AttributeOf: null,
+    IsPrimaryId: false,
+    IsValidForRead: true,
+    ...details,
+  } as Attribute;
+}
+
+function options(...labels: string[]) {
+  return {
+    Name: "",
+    IsGlobal: false,
+    OptionSetType: "Picklist" as const,
+    Options: labels.map((text, index) => ({
+      Value: index + 1,
+      Label: label(text),
+    })),
+  };
+}
+
+const ATTRIBUTES: Attribute[] = [
+  attribute("bam_lotid", "Uniqueidentifier", { IsPrimaryId: true }),
+  attribute("bam_name", "String"),
+  attribute("statuscode", "Status", { OptionSet: options("Active", "Sold") }),
+  attribute("bam_tags", "Virtual", {
+    AttributeTypeName: { Value: "MultiSelectPicklistType" },
+    OptionSet: options("Organic", "Fragile", "Bulk"),
+  }),
+  attribute("modifiedon", "DateTime"),
+];
+
+/** The records both profiling paths count: the sample reads them, the aggregates below count them. */
+const RECORDS = [
+  {
+    bam_lotid: "a",
+    bam_name: "Lot 1",
+    statuscode: 1,
+    bam_tags: "1,2",
+    modifiedon: "2024-01-01T00:00:00Z",
+  },
+  {
+    bam_lotid: "b",
+    bam_name: "Lot 2",
+    statuscode: 1,
+    bam_tags: "1",
+    modifiedon: "2024-02-01T00:00:00Z",
+  },
+  {
+    bam_lotid: "c",
+    bam_name: null,
+    statuscode: 2,
+    bam_tags: "1",
+    modifiedon: "2024-03-01T00:00:00Z",
+  },
+  {
+    bam_lotid: "d",
+    bam_name: null,
+    statuscode: 1,
+    bam_tags: null,
+    modifiedon: "2024-04-01T00:00:00Z",
+  },
+];
+
+const ENTITY_SET = response(
+  "EntityDefinitions(LogicalName='bam_lot')?$select=EntitySetName",
+  { EntitySetName: "bam_lots" }
+);
+
+function aggregate(body: string, rows: Record<string, any>[]) {
+  return response(
+    `bam_lots?fetchXml=<fetch aggregate="true"><entity name="bam_lot">${body}</entity></fetch>`,
+    { value: rows }
+  );
+}
+
+const TOTAL = '<attribute name="bam_lotid" alias="total" aggregate="count" />';
+
+function population(name: string, populated: number, to: string) {
+  return aggregate(
+    '<attribute name="bam_lotid" alias="populated" aggregate="count" />' +
+      '<attribute name="modifiedon" alias="modifiedfrom" aggregate="min" />' +
+      '<attribute name="modifiedon" alias="modifiedto" aggregate="max" />' +
+      `<filter><condition attribute="${name}" operator="not-null" /></filter>`,
+    [{ populated, modifiedfrom: "2024-01-01T00:00:00Z", modifiedto: to }]
+  );
+}
+
+function tagCount(value: number, count: number) {
+  return aggregate(
+    '<attribute name="bam_lotid" alias="count" aggregate="count" />' +
+      `<filter><condition attribute="bam_tags" operator="contain-values"><value>${value}</value></condition></filter>`,
+    [{ count }]
+  );
+}
+
+const AGGREGATES: RecordedResponse[] = [
+  ENTITY_SET,
+  aggregate(TOTAL, [{ total: 4 }]),
+  population("bam_lotid", 4, "2024-04-01T00:00:00Z"),
+  population("bam_name", 2, "2024-02-01T00:00:00Z"),
+  population("statuscode", 4, "2024-04-01T00:00:00Z"),
+  aggregate(
+    '<attribute name="statuscode" alias="value" groupby="true" />' +
+      '<attribute name="bam_lotid" alias="count" aggregate="count" />',
+    [
+      { value: 1, count: 3 },
+      { value: 2, count: 1 },
+    ]
+  ),
+  population("bam_tags", 3, "2024-03-01T00:00:00Z"),
+  tagCount(1, 3),
+  tagCount(2, 1),
+  tagCount(3, 0),
+  population("modifiedon", 4, "2024-04-01T00:00:00Z"),
+];
+
+const SAMPLED: RecordedResponse[] = [
+  ENTITY_SET,
+  response(
+    `bam_lots?fetchXml=<fetch aggregate="true"><entity name="bam_lot">${TOTAL}</entity></fetch>`,
+    {
+      error: {
+        code: "0x8004e023",
+        message:
+          "AggregateQueryRecordLimit exceeded. Cannot perform this operation.",
+      },
+    },
+    400
+  ),
+  response(
+    "bam_lots?$select=bam_lotid,bam_name,statuscode,bam_tags,modifiedon",
+    { value: RECORDS }
+  ),
+];
+
+function replayClient(responses: RecordedResponse[]): DataverseClient {
+  return createDataverseClient({
+    baseUrl: `https://test.crm.dynamics.com${API}`,
+    tokenProvider: { getToken: async () => "token" },
+    retryBaseDelayMs: 1,
+    adapter: createReplayAdapter({
+      version: 1,
+      recordedAt: "2024-01-01T00:00:00.000Z",
+      responses,
+    }),
+  });
+}
+
+describe("profileColumns from replayed responses", () => {
+  it("counts every record with aggregate queries", async () => {
+    const stats = await profileColumns(
+      replayClient(AGGREGATES),
+      "bam_lot",
+      ATTRIBUTES,
+      { sampleSize: 100 }
+    );
+
+    assert.equal(stats.method, "aggregate");
+    assert.equal(stats.records, 4);
+    assert.deepEqual(stats.columns.bam_name, {
+      populated: 2,
+      modifiedFrom: "2024-01-01T00:00:00Z",
+      modifiedTo: "2024-02-01T00:00:00Z",
+    });
+    assert.deepEqual(stats.columns.statuscode.histogram, [
+      { value: "1", label: "Active", count: 3 },
+      { value: "2", label: "Sold", count: 1 },
+    ]);
+    // Multi-select options are counted one query per option; unused options are left out.
+    assert.equal(stats.columns.bam_tags.distinct, 2);
+    assert.deepEqual(stats.columns.bam_tags.histogram, [
+      { value: "1", label: "Organic", count: 3 },
+      { value: "2", label: "Fragile", count: 1 },
+    ]);
+  });
+
+  it("falls back to a sample past the aggregate record limit, with the same stats", async () => {
+    const [counted, sampled] = await Promise.all([
+      profileColumns(replayClient(AGGREGATES), "bam_lot", ATTRIBUTES, {
+        sampleSize: 100,
+      }),
+      profileColumns(replayClient(SAMPLED), "bam_lot", ATTRIBUTES, {
+        sampleSize: 100,
+      }),
+    ]);
+
+    assert.equal(sampled.method, "sample");
+    assert.equal(sampled.records, 4);
+    assert.deepEqual(sampled.columns, counted.columns);
+  });
+
+  it("leaves out only the column whose query fails when requests are batched", async () => {
+    const stats = await profileColumns(
+      createBatchingClient(
+        replayClient(
+          AGGREGATES.filter(
+            (recorded) => !recorded.url.includes('attribute="bam_name"')
+          )
+        )
+      ),
+      "bam_lot",
+      ATTRIBUTES,
+      { sampleSize: 100 }
+    );
+
+    assert.deepEqual(Object.keys(stats.columns).sort(), [
+      "bam_lotid",
+      "bam_tags",
+      "modifiedon",
+      "statuscode",
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+// test/dataExport.test.ts
+
+import { strict as assert } from "assert";
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+
+import { exportTableData, flattenRecord } from "../src/dataExport";
+import { createDataverseClient, DataverseClient } from "../src/dataverseClient";
+import { createReplayAdapter, RecordedResponse } from "../src/fixtures";
+
+const API = "/api/data/v9.2";
+const FORMATTED = "@OData.Community.Display.V1.FormattedValue";
+
+function response(url: string, body: any): RecordedResponse {
+  return {
+    method: "GET",
+    url: `${API}/${url}`,
+    status: 200,
+    headers: {},
+    body,
+  };
+}
+
+const STATES_QUERY =
+  "bam_states?$select=bam_name,statecode,_bam_countryid_value,bam_extra&$filter=statecode eq 0";
+
+function column(
+  LogicalName: string,
+  AttributeType: string,
+  details: Record<string, any> = {}
+) {
+  return {
+    LogicalName,
+    AttributeType,
+    AttributeTypeName: null,
+    AttributeOf: null,
+    IsValidForRead: true,
+    ...details,
+  };
+}
+
+const CITY_COOKIE =
+  '<cookie page="1"><bam_cityid last="{C2}" first="{C1}" /></cookie>';
+
+const RESPONSES: RecordedResponse[] = [
+  response("EntityDefinitions(LogicalName='bam_state')?$select=EntitySetName", {
+    EntitySetName: "bam_states",
+  }),
+  response(
+    "EntityDefinitions(LogicalName='bam_state')/Attributes?$select=LogicalName,AttributeType,AttributeTypeName,AttributeOf,IsValidForRead",
+    {
+      value: [
+        column("bam_stateid", "Uniqueidentifier"),
+        column("bam_name", "String"),
+        column("bam_countryid", "Lookup"),
+        column("bam_countryidname", "String", { AttributeOf: "bam_countryid" }),
+        column("bam_image_url", "Virtual"),
+        column("bam_regions", "Virtual", {
+          AttributeTypeName: { Value: "MultiSelectPicklistType" },
+        }),
+        column("statecode", "State"),
+      ],
+    }
+  ),
+  response("bam_states?$filter=statecode eq 1", {
+    value: [
+      {
+        bam_stateid: "s1",
+        bam_name: "Oaxaca",
+        statecode: 1,
+        [`statecode${FORMATTED}`]: "Inactive",
+      },
+    ],
+  }),
+  response(STATES_QUERY, {
+    value: [
+      {
+        "@odata.etag": 'W/"1"',
+        bam_name: "Texas",
+        statecode: 0,
+        [`statecode${FORMATTED}`]: "Active",
+        _bam_countryid_value: "c1",
+        [`_bam_countryid_value${FORMATTED}`]: "United States",
+      },
+    ],
+    "@odata.nextLink": `https://test.crm.dynamics.com${API}/${STATES_QUERY}&$skiptoken=2`,
+  }),
+  response(`${STATES_QUERY}&$skiptoken=2`, {
+    value: [
+      {
+        bam_name: 'Rio "Grande", Norte',
+        statecode: 0,
+        [`statecode${FORMATTED}`]: "Active",
+        _bam_countryid_value: null,
+        bam_extra: "not in the first page",
+      },
+    ],
+  }),
+  response("EntityDefinitions(LogicalName='bam_city')?$select=EntitySetName", {
+    EntitySetName: "bam_cities",
+  }),
+  response(
+    'bam_cities?fetchXml=<fetch count="5000" page="1"><entity name="bam_city"><attribute name="bam_name" /></entity></fetch>',
+    {
+      value: [{ bam_name: "Austin" }, { bam_name: "Dallas" }],
+      "@Microsoft.Dynamics.CRM.morerecords": true,
+      "@Microsoft.Dynamics.CRM.fetchxmlpagingcookie": `<cookie pagenumber="2" pagingcookie="${encodeURIComponent(
+        encodeURIComponent(CITY_COOKIE)
+      )}" istracking="False" />`,
+    }
+  ),
+  response(
+    'bam_cities?fetchXml=<fetch count="5000" page="2" paging-cookie="&lt;cookie page=&quot;1&quot;&gt;&lt;bam_cityid last=&quot;{C2}&quot; first=&quot;{C1}&quot; /&gt;&lt;/cookie&gt;"><entity name="bam_city"><attribute name="bam_name" /></entity></fetch>',
+    {
+      value: [{ bam_name: "Houston" }],
+      "@Microsoft.Dynamics.CRM.morerecords": false,
+    }
+  ),
+];
+
+function replayClient(): DataverseClient {
+  return createDataverseClient({
+    baseUrl: `https://test.crm.dynamics.com${API}`,
+    tokenProvider: { getToken: async () => "token" },
+    retryBaseDelayMs: 1,
+    adapter: createReplayAdapter({
+      version: 1,
+      recordedAt: "2024-01-01T00:00:00.000Z",
+      responses: RESPONSES,
+    }),
+  });
+}
+
+describe("flattenRecord", () => {
+  const record = {
+    "@odata.etag": 'W/"1"',
+    statecode: 1,
+    [`statecode${FORMATTED}`]: "Inactive",
+    _primarycontactid_value: "c1",
+    [`_primarycontactid_value${FORMATTED}`]: "Ada Lovelace",
+    parentaccountid: {
+      name: "Contoso",
+      industrycode: 7,
+      [`industrycode${FORMATTED}`]: "Consulting",
+    },
+    contact_customer_accounts: [{ fullname: "Grace Hopper" }],
+  };
+
+  it("uses formatted values and names lookups after their attribute", () => {
+    assert.deepEqual(flattenRecord(record), {
+      statecode: "Inactive",
+      primarycontactid: "Ada Lovelace",
+      "parentaccountid.name": "Contoso",
+      "parentaccountid.industrycode": "Consulting",
+      contact_customer_accounts: '[{"fullname":"Grace Hopper"}]',
+    });
+  });
+
+  it("keeps stored values when asked", () => {
+    const flat = flattenRecord(record, true);
+    assert.equal(flat.statecode, 1);
+    assert.equal(flat.primarycontactid, "c1");
+    assert.equal(flat["parentaccountid.industrycode"], 7);
+  });
+});
+
+describe("table data export from replayed responses", () => {
+  let outputDir: string;
+
+  before(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "data-export-"));
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("follows nextLink and writes formatted values to CSV", async () => {
+    const outputPath = path.join(outputDir, "bam_state-data.csv");
+    const records = await exportTableData(replayClient(), "bam_state", {
+      format: "csv",
+      outputPath,
+      select: ["bam_name", "statecode", "_bam_countryid_value", "bam_extra"],
+      filter: "statecode eq 0",
+    });
+
+    assert.equal(records, 2);
+    // bam_extra is only returned from the second page, but it was selected so it has a column.
+    assert.equal(
+      fs.readFileSync(outputPath, "utf8"),
+      [
+        "bam_name,statecode,bam_countryid,bam_extra",
+        "Texas,Active,United States,",
+        '"Rio ""Grande"", Norte",Active,,not in the first page',
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("takes the columns from the table metadata when none are selected", async () => {
+    const outputPath = path.join(outputDir, "bam_state-inactive.csv");
+    await exportTableData(replayClient(), "bam_state", {
+      format: "csv",
+      outputPath,
+      filter: "statecode eq 1",
+    });
+
+    assert.equal(
+      fs.readFileSync(outputPath, "utf8"),
+      [
+        "bam_countryid,bam_name,bam_regions,bam_stateid,statecode",
+        ",Oaxaca,,s1,Inactive",
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  it("pages FetchXML with the paging cookie and writes XLSX", async () => {
+    const outputPath = path.join(outputDir, "cities.xlsx");
+    const records = await exportTableData(replayClient(), "bam_city", {
+      format: "xlsx",
+      outputPath,
+      fetchXml:
+        '<fetch><entity name="bam_city"><attribute name="bam_name" /></entity></fetch>',
+    });
+    assert.equal(records, 3);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(outputPath);
+    const worksheet = workbook.getWorksheet("bam_city");
+    assert.ok(worksheet);
+    const values: any[] = [];
+    worksheet.eachRow((row) => values.push((row.values as any[])[1]));
+    assert.deepEqual(values, ["bam_name", "Austin", "Dallas", "Houston"]);
+  });
+
+  it("removes the partly written file when a request fails", async () => {
+    const outputPath = path.join(outputDir, "bam_state-data.xlsx");
+    await assert.rejects(
+      exportTableData(replayClient(), "bam_state", {
+        format: "xlsx",
+        outputPath,
+        filter: "statecode eq 2",
+      })
+    );
+    assert.equal(fs.existsSync(outputPath), false);
+  });
+});
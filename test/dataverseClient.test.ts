@@ -0,0 +1,177 @@
+// test/dataverseClient.test.ts
+
+import { strict as assert } from "assert";
+import { AxiosAdapter, AxiosError } from "axios";
+import { describe, it } from "node:test";
+
+import {
+  createBatchingClient,
+  createDataverseClient,
+  DataverseClient,
+  getRetryDelay,
+} from "../src/dataverseClient";
+import { createReplayAdapter, RecordedResponse } from "../src/fixtures";
+
+const API = "/api/data/v9.2";
+
+function response(
+  url: string,
+  body: any,
+  status = 200,
+  headers: Record<string, string> = {}
+): RecordedResponse {
+  return { method: "GET", url: `${API}/${url}`, status, headers, body };
+}
+
+function replayAdapter(responses: RecordedResponse[]): AxiosAdapter {
+  return createReplayAdapter({
+    version: 1,
+    recordedAt: "2024-01-01T00:00:00.000Z",
+    responses,
+  });
+}
+
+function replayClient(responses: RecordedResponse[]): DataverseClient {
+  return createDataverseClient({
+    baseUrl: `https://test.crm.dynamics.com${API}`,
+    tokenProvider: { getToken: async () => "token" },
+    retryBaseDelayMs: 1,
+    adapter: replayAdapter(responses),
+  });
+}
+
+function throttled(retryAfter?: string): AxiosError {
+  return {
+    response: {
+      status: 429,
+      headers: retryAfter === undefined ? {} : { "retry-after": retryAfter },
+    },
+  } as AxiosError;
+}
+
+describe("throttling", () => {
+  it("retries a 429 response until it succeeds", async () => {
+    const replay = replayAdapter([
+      response("accounts?$select=name", { error: "throttled" }, 429, {
+        "retry-after": "0",
+      }),
+      response("accounts?$select=name", { error: "throttled" }, 429, {
+        "retry-after": "0",
+      }),
+      response("accounts?$select=name", { value: [] }),
+    ]);
+    let requests = 0;
+    const client = createDataverseClient({
+      baseUrl: `https://test.crm.dynamics.com${API}`,
+      tokenProvider: { getToken: async () => "token" },
+      retryBaseDelayMs: 1,
+      adapter: (config) => {
+        requests++;
+        return replay(config);
+      },
+    });
+
+    assert.deepEqual(await client.get("accounts?$select=name"), { value: [] });
+    assert.equal(requests, 3);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const replay = replayAdapter([
+      response("accounts?$select=name", { error: "throttled" }, 429, {
+        "retry-after": "0",
+      }),
+    ]);
+    let requests = 0;
+    const client = createDataverseClient({
+      baseUrl: `https://test.crm.dynamics.com${API}`,
+      tokenProvider: { getToken: async () => "token" },
+      retryBaseDelayMs: 1,
+      maxRetries: 2,
+      adapter: (config) => {
+        requests++;
+        return replay(config);
+      },
+    });
+
+    await assert.rejects(client.get("accounts?$select=name"), (error: any) => {
+      assert.equal(error.response.status, 429);
+      return true;
+    });
+    assert.equal(requests, 3);
+  });
+
+  it("waits for Retry-After in seconds or until its HTTP date", () => {
+    assert.equal(getRetryDelay(throttled("120"), 0, 1000), 120000);
+
+    const delay = getRetryDelay(
+      throttled(new Date(Date.now() + 30000).toUTCString()),
+      0,
+      1000
+    );
+    // HTTP dates have whole seconds, so up to a second of the wait is lost.
+    assert.ok(delay > 28000 && delay <= 30000, `${delay}`);
+
+    assert.equal(getRetryDelay(throttled("86400"), 0, 1000), 5 * 60 * 1000);
+  });
+
+  it("backs off exponentially without Retry-After", () => {
+    for (const attempt of [0, 1, 3]) {
+      const delay = getRetryDelay(throttled(), attempt, 100);
+      const backoff = 100 * 2 ** attempt;
+      assert.ok(delay >= backoff && delay < backoff + 100, `${delay}`);
+    }
+  });
+});
+
+describe("$batch requests", () => {
+  it("settles each part on its own", async () => {
+    const client = replayClient([
+      response("accounts?$select=name", { value: [{ name: "Contoso" }] }),
+      response("contacts?$select=fullname", { error: "throttled" }, 429, {
+        "retry-after": "0",
+      }),
+      response("contacts?$select=fullname", { value: [] }),
+    ]);
+
+    const results = await client.batch([
+      { path: "accounts?$select=name" },
+      { path: "missing?$select=name" },
+      { path: "contacts?$select=fullname" },
+    ]);
+
+    assert.deepEqual(results[0], {
+      status: "fulfilled",
+      value: { value: [{ name: "Contoso" }] },
+    });
+    assert.equal(results[1].status, "rejected");
+    assert.equal(
+      (results[1] as PromiseRejectedResult).reason.response.status,
+      404
+    );
+    // The throttled part was retried on its own before the batch settled.
+    assert.deepEqual(results[2], { status: "fulfilled", value: { value: [] } });
+  });
+
+  it("rejects only the failed request of a batching client", async () => {
+    const client = createBatchingClient(
+      replayClient([
+        response("accounts?$select=name", { value: [{ name: "Contoso" }] }),
+      ])
+    );
+
+    const [found, missing] = await Promise.allSettled([
+      client.get("accounts?$select=name"),
+      client.get("missing?$select=name"),
+    ]);
+
+    assert.deepEqual(found, {
+      status: "fulfilled",
+      value: { value: [{ name: "Contoso" }] },
+    });
+    assert.equal(missing.status, "rejected");
+    assert.equal(
+      (missing as PromiseRejectedResult).reason.response.status,
+      404
+    );
+  });
+});
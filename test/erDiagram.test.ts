@@ -0,0 +1,115 @@
+// test/erDiagram.test.ts
+
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+
+import { emptyEntityMetadata, EntityMetadata } from "../src/entityMetadata";
+import {
+  collectRelationshipEdges,
+  selectEdges,
+  SYSTEM_ENTITIES,
+} from "../src/erDiagram";
+import { RelationshipMetadata } from "../src/types/crm";
+
+function oneToMany(
+  SchemaName: string,
+  ReferencedEntity: string,
+  ReferencingEntity: string,
+  ReferencingAttribute: string
+): RelationshipMetadata {
+  return {
+    SchemaName,
+    RelationshipType: "OneToManyRelationship",
+    ReferencedEntity,
+    ReferencingEntity,
+    ReferencingAttribute,
+  } as RelationshipMetadata;
+}
+
+function entity(
+  entityName: string,
+  relationships: RelationshipMetadata[]
+): EntityMetadata {
+  return { ...emptyEntityMetadata(entityName), relationships };
+}
+
+const ACCOUNT_ANNOTATION = oneToMany(
+  "Account_Annotation",
+  "account",
+  "annotation",
+  "objectid"
+);
+const PRIMARY_CONTACT = oneToMany(
+  "account_primary_contact",
+  "contact",
+  "account",
+  "primarycontactid"
+);
+const CUSTOMER_ACCOUNTS = oneToMany(
+  "contact_customer_accounts",
+  "account",
+  "contact",
+  "parentcustomerid"
+);
+
+/** A run that processed account and contact; annotation, lead and systemuser were not processed. */
+const ENTITIES = [
+  entity("account", [
+    ACCOUNT_ANNOTATION,
+    PRIMARY_CONTACT,
+    CUSTOMER_ACCOUNTS,
+    oneToMany("lk_accountbase_createdby", "systemuser", "account", "createdby"),
+    {
+      SchemaName: "accountleads_association",
+      RelationshipType: "ManyToManyRelationship",
+      Entity1LogicalName: "account",
+      Entity2LogicalName: "lead",
+      IntersectEntityName: "accountleads",
+    } as RelationshipMetadata,
+  ]),
+  entity("contact", [
+    PRIMARY_CONTACT,
+    CUSTOMER_ACCOUNTS,
+    oneToMany("Contact_Annotation", "contact", "annotation", "objectid"),
+  ]),
+];
+
+const PROCESSED = ENTITIES.map((metadata) => metadata.entityName);
+
+function selected(root?: string, hops?: number): string[] {
+  return selectEdges(
+    collectRelationshipEdges(ENTITIES),
+    { exclude: SYSTEM_ENTITIES, root, hops },
+    PROCESSED
+  )
+    .map((edge) => edge.schemaName)
+    .sort();
+}
+
+describe("selectEdges", () => {
+  it("keeps only relationships among the processed entities without a root", () => {
+    assert.deepEqual(selected(), [
+      "account_primary_contact",
+      "contact_customer_accounts",
+    ]);
+  });
+
+  it("expands to unprocessed neighbours within the hops of a root", () => {
+    assert.deepEqual(selected("lead"), ["accountleads_association"]);
+    assert.deepEqual(selected("lead", 2), [
+      "Account_Annotation",
+      "Contact_Annotation",
+      "account_primary_contact",
+      "accountleads_association",
+      "contact_customer_accounts",
+    ]);
+    // System entities stay out either way.
+    assert.deepEqual(selected("account"), [
+      "Account_Annotation",
+      "Contact_Annotation",
+      "account_primary_contact",
+      "accountleads_association",
+      "contact_customer_accounts",
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+// test/snapshots.test.ts
+
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+
+import { buildEntitySheets, SHEET_NAMES } from "../src/processEntity";
+import {
+  readSnapshot,
+  snapshotEntity,
+  SNAPSHOT_VERSION,
+} from "../src/snapshots";
+
+describe("snapshots", () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "snapshots-"));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeSnapshot(
+    name: string,
+    version: number,
+    businessRules: Record<string, any>[] = []
+  ): string {
+    const filePath = path.join(dir, name);
+    // Only the parts the first snapshots had, and no entity definition.
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        version,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        profile: "dev",
+        orgUrl: "https://dev.crm.dynamics.com",
+        apiVersion: "9.2",
+        entities: [
+          {
+            entityName: "bam_lot",
+            attributes: [],
+            relationships: [],
+            forms: [],
+            views: [],
+            businessRules,
+          },
+        ],
+      })
+    );
+    return filePath;
+  }
+
+  it("reads older snapshots with the parts added since left empty", async () => {
+    const snapshot = readSnapshot(writeSnapshot("v1.json", 1));
+    const metadata = snapshotEntity(snapshot, "bam_lot");
+
+    assert.equal(metadata.definition, undefined);
+    assert.deepEqual(metadata.processes, []);
+    assert.deepEqual(metadata.securityRoles, []);
+    assert.deepEqual(metadata.keys, []);
+
+    const sheets = await buildEntitySheets(metadata, [...SHEET_NAMES]);
+    assert.deepEqual(sheets.find((sheet) => sheet.name === "entity")?.records, [
+      { Property: "Logical Name", Value: "bam_lot" },
+    ]);
+  });
+
+  it("keeps only the business rules of version 1 and 2 snapshots, which saved every workflow", () => {
+    const workflows = [
+      { name: "Notify owner", category: 0, xaml: "" },
+      { name: "Require Country for USA", category: 2, xaml: "" },
+    ];
+
+    for (const version of [1, 2]) {
+      const snapshot = readSnapshot(
+        writeSnapshot(`v${version}-workflows.json`, version, workflows)
+      );
+      assert.deepEqual(
+        snapshotEntity(snapshot, "bam_lot").businessRules.map(
+          (rule) => rule.name
+        ),
+        ["Require Country for USA"]
+      );
+    }
+
+    // From version 3 on, businessRules were fetched as rules only and are read as saved.
+    const current = readSnapshot(
+      writeSnapshot("v3-workflows.json", 3, workflows)
+    );
+    assert.equal(snapshotEntity(current, "bam_lot").businessRules.length, 2);
+  });
+
+  it("rejects snapshots newer than this version", () => {
+    assert.throws(
+      () => readSnapshot(writeSnapshot("future.json", SNAPSHOT_VERSION + 1)),
+      /expected 1 to/
+    );
+  });
+});
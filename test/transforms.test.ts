@@ -0,0 +1,502 @@
+// test/transforms.test.ts
+
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { describe, it } from "node:test";
+
+import { parseBusinessRuleXaml } from "../src/businessRuleLogic";
+import { transformFormLayout } from "../src/formLayout";
+import { parseViewDefinition } from "../src/viewDetails";
+import { transformAttribute } from "../src/entityColumns";
+import { transformRelationship } from "../src/entityRelationships";
+import { transformForm } from "../src/entityForms";
+import { transformView } from "../src/entityViews";
+import { transformBusinessRule } from "../src/entityBusinessRules";
+import { buildSecurityMatrixRecords } from "../src/entitySecurity";
+import { EntityForm } from "../src/entityForms";
+import { EntityView } from "../src/entityViews";
+import {
+  Attribute,
+  BooleanManagedProperty,
+  BusinessRule,
+  RelationshipMetadata,
+} from "../src/types/crm";
+
+function label(text: string) {
+  return {
+    LocalizedLabels: [{ Label: text, LanguageCode: 1033 }],
+    UserLocalizedLabel: { Label: text, LanguageCode: 1033 },
+  };
+}
+
+function managed(value: boolean): BooleanManagedProperty {
+  return {
+    Value: value,
+    CanBeChanged: true,
+    ManagedPropertyLogicalName: "iscustomizableanddeletable",
+  };
+}
+
+describe("transformAttribute", () => {
+  it("renames the common fields", () => {
+    const record = transformAttribute({
+      LogicalName: "name",
+      SchemaName: "Name",
+      AttributeType: "String",
+      DisplayName: label("Account Name"),
+      Description: label("Type the company or business name."),
+      IsCustomizable: managed(true),
+      RequiredLevel: { Value: "ApplicationRequired" },
+      MaxLength: 160,
+      Format: "Text",
+      SourceType: 0,
+    } as Attribute);
+
+    assert.equal(record["Display Name"], "Account Name");
+    assert.equal(record["Schema Name"], "Name");
+    assert.equal(record["Logical Name"], "name");
+    assert.equal(record.Description, "Type the company or business name.");
+    assert.equal(record["Data Type"], "String");
+    assert.equal(record.Customizable, true);
+    assert.equal(record["Required Level"], "ApplicationRequired");
+    assert.equal(record["Max Length"], 160);
+    assert.equal(record.Format, "Text");
+    assert.equal(record["Source Type"], "Simple");
+  });
+
+  it("names multi-select choices by their type name and lists global options", () => {
+    const record = transformAttribute({
+      LogicalName: "new_regions",
+      AttributeType: "Virtual",
+      AttributeTypeName: { Value: "MultiSelectPicklistType" },
+      GlobalOptionSet: {
+        Name: "new_region",
+        IsGlobal: true,
+        Options: [
+          { Value: 100000000, Label: label("North") },
+          { Value: 100000001, Label: label("South") },
+        ],
+      },
+    } as Attribute);
+
+    assert.equal(record["Data Type"], "MultiSelectPicklist");
+    assert.equal(record["Option Set"], "new_region");
+    assert.match(record.Options, /100000000.*North/);
+    assert.match(record.Options, /100000001.*South/);
+  });
+
+  it("lists lookup targets and leaves missing details empty", () => {
+    const record = transformAttribute({
+      LogicalName: "parentcustomerid",
+      AttributeType: "Customer",
+      Targets: ["account", "contact"],
+    } as Attribute);
+
+    assert.equal(record.Targets, "account, contact");
+    assert.equal(record["Display Name"], "");
+    assert.equal(record["Option Set"], "");
+    assert.equal(record.Precision, "");
+    assert.equal(record["Source Type"], "");
+  });
+});
+
+describe("transformRelationship", () => {
+  it("flattens the menu and cascade configuration", () => {
+    const record = transformRelationship({
+      SchemaName: "contact_customer_accounts",
+      RelationshipType: "OneToManyRelationship",
+      SecurityTypes: "Append",
+      IsManaged: true,
+      ReferencedAttribute: "accountid",
+      ReferencedEntity: "account",
+      ReferencingAttribute: "parentcustomerid",
+      ReferencingEntity: "contact",
+      IsHierarchical: false,
+      RelationshipBehavior: 0,
+      IsCustomizable: managed(true),
+      AssociatedMenuConfiguration: {
+        Behavior: "UseCollectionName",
+        IsCustomizable: false,
+      },
+      CascadeConfiguration: { Assign: "Cascade", Delete: "Restrict" },
+    } as RelationshipMetadata);
+
+    assert.equal(record["Schema Name"], "contact_customer_accounts");
+    assert.equal(record.Type, "OneToManyRelationship");
+    assert.equal(record["Entity Ref."], "account");
+    assert.equal(record["Referencing Entity"], "contact");
+    assert.equal(record.Hierarchical, false);
+    assert.equal(record.Behavior, 0);
+    assert.equal(record["Menu Behavior"], "UseCollectionName");
+    assert.equal(record["Menu Customization"], false);
+    assert.equal(record.Assign, "Cascade");
+    assert.equal(record.Delete, "Restrict");
+    assert.equal(record.Merge, "");
+  });
+
+  it("leaves the one-to-many fields of a many-to-many relationship empty", () => {
+    const record = transformRelationship({
+      SchemaName: "accountleads_association",
+      RelationshipType: "ManyToManyRelationship",
+      Entity1LogicalName: "account",
+      Entity2LogicalName: "lead",
+    } as RelationshipMetadata);
+
+    assert.equal(record.Type, "ManyToManyRelationship");
+    assert.equal(record["Entity Ref."], "");
+    assert.equal(record.Managed, "");
+    assert.equal(record.Customizable, "");
+  });
+});
+
+describe("transformForm", () => {
+  it("maps the state and type codes to names", () => {
+    const record = transformForm({
+      name: "Account",
+      objecttypecode: "account",
+      formactivationstate: 1,
+      componentstate: 0,
+      formpresentationstate: 1,
+      isairmerged: true,
+      type: 2,
+      description: "A form for this entity.",
+      isdefault: true,
+      ismanaged: false,
+      iscustomizable: managed(true),
+    } as EntityForm);
+
+    assert.deepEqual(record, {
+      Name: "Account",
+      Entity: "account",
+      "Activation State": "Active",
+      "Component State": "Published",
+      "Presentation State": "AirForm",
+      "Is Air Merged": "Yes",
+      "Form Type": "Main",
+      Description: "A form for this entity.",
+      "Is Default": "Yes",
+      "Is Managed": "No",
+      "Is Customizable": "Yes",
+    });
+  });
+
+  it("reports unknown codes as Unknown", () => {
+    const record = transformForm({ name: "Odd", type: 42 } as EntityForm);
+
+    assert.equal(record["Form Type"], "Unknown");
+    assert.equal(record["Activation State"], "Unknown");
+    assert.equal(record["Is Default"], "No");
+  });
+});
+
+describe("transformView", () => {
+  it("maps the component state and defaults the flags", () => {
+    assert.deepEqual(
+      transformView({
+        name: "Active Accounts",
+        description: "Shows active accounts.",
+        componentstate: 0,
+        isdefault: true,
+        ismanaged: true,
+        iscustomizable: managed(false),
+      } as EntityView),
+      {
+        Name: "Active Accounts",
+        Description: "Shows active accounts.",
+        "Component State": "Published",
+        "Is Default": true,
+        "Is Managed": true,
+        "Is Customizable": false,
+      }
+    );
+
+    const record = transformView({ name: "Bare" } as EntityView);
+    assert.equal(record["Component State"], "");
+    assert.equal(record["Is Default"], false);
+    assert.equal(record["Is Customizable"], false);
+  });
+});
+
+describe("transformBusinessRule", () => {
+  it("maps the scope, state, status, category and type codes to names", () => {
+    const rule: BusinessRule = {
+      name: "Require Country for USA",
+      primaryentity: "account",
+      scope: 4,
+      ismanaged: false,
+      iscustomizable: true,
+      statecode: 1,
+      statuscode: 2,
+      type: 1,
+      category: 2,
+    };
+
+    assert.deepEqual(transformBusinessRule(rule), {
+      Name: "Require Country for USA",
+      Scope: "Organization",
+      "Is Managed": false,
+      "Is Customizable": true,
+      "State Code": "Unpublished",
+      "Status Code": "Activated",
+      Category: "Business Rule",
+      Type: "Task Flow",
+    });
+  });
+});
+
+describe("transformFormLayout", () => {
+  it("lists the header, tabs, sections and controls in form order", () => {
+    const rows = transformFormLayout({
+      name: "Account",
+      type: 2,
+      formjson: JSON.stringify({
+        Header: {
+          Rows: [{ Cells: [{ Control: { Id: "header_ownerid" } }] }],
+        },
+        Tabs: {
+          general: {
+            Name: "GENERAL",
+            Label: { 1036: "Général", 1033: "General" },
+            Visible: false,
+            Columns: [
+              {
+                Sections: [
+                  {
+                    Name: "DETAILS",
+                    Label: "Details",
+                    Rows: [
+                      {
+                        Cells: [
+                          {
+                            Label: [
+                              { Description: "Name", LanguageCode: 1033 },
+                            ],
+                            Control: {
+                              Id: "name",
+                              DataFieldName: "name",
+                              IsRequired: true,
+                              Disabled: true,
+                            },
+                          },
+                          { Label: "Spacer" },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      }),
+    } as EntityForm);
+
+    assert.deepEqual(
+      rows.map((row) => [
+        row.Level,
+        row.Order,
+        row.Tab,
+        row.Section,
+        row["Control Id"],
+        row["Bound Attribute"],
+        row.Label,
+        row.Visible,
+        row["Read-Only"],
+        row.Required,
+      ]),
+      [
+        ["Section", "0", "", "Header", "", "", "", "", "", ""],
+        ["Control", "0.1", "", "Header", "header_ownerid", "", "", "", "", ""],
+        ["Tab", "1", "GENERAL", "", "", "", "General", "No", "", ""],
+        ["Section", "1.1", "GENERAL", "DETAILS", "", "", "Details", "", "", ""],
+        [
+          "Control",
+          "1.1.1",
+          "GENERAL",
+          "DETAILS",
+          "name",
+          "name",
+          "Name",
+          "",
+          "Yes",
+          "Yes",
+        ],
+      ]
+    );
+    assert.equal(rows[0].Form, "Account");
+    assert.equal(rows[0]["Form Type"], "Main");
+  });
+
+  it("returns no rows for missing or invalid formjson", () => {
+    assert.deepEqual(transformFormLayout({ name: "Bare" } as EntityForm), []);
+    assert.deepEqual(
+      transformFormLayout({ name: "Broken", formjson: "{" } as EntityForm),
+      []
+    );
+  });
+});
+
+describe("parseViewDefinition", () => {
+  it("reads nested filters, link-entities, sorts and layout columns", async () => {
+    const definition = await parseViewDefinition(
+      `<fetch>
+        <entity name="account">
+          <attribute name="name" />
+          <order attribute="revenue" descending="true" />
+          <filter type="and">
+            <condition attribute="statecode" operator="eq" value="0" />
+            <filter type="or">
+              <condition attribute="industrycode" operator="in">
+                <value>1</value>
+                <value> 2 </value>
+              </condition>
+              <condition attribute="fullname" entityname="pc" operator="not-null" />
+            </filter>
+          </filter>
+          <link-entity name="contact" from="contactid" to="primarycontactid" alias="pc">
+            <link-entity name="systemuser" from="systemuserid" to="owninguser" link-type="outer" />
+          </link-entity>
+        </entity>
+      </fetch>`,
+      '<grid><row name="result"><cell name="name" width="300" /><cell name="pc.fullname" /></row></grid>'
+    );
+
+    assert.deepEqual(definition.conditions, [
+      {
+        entity: "account",
+        attribute: "statecode",
+        operator: "eq",
+        values: ["0"],
+        group: "and",
+      },
+      {
+        entity: "account",
+        attribute: "industrycode",
+        operator: "in",
+        values: ["1", "2"],
+        group: "and > or #1",
+      },
+      {
+        entity: "pc",
+        attribute: "fullname",
+        operator: "not-null",
+        values: [],
+        group: "and > or #1",
+      },
+    ]);
+    assert.deepEqual(definition.linkEntities, [
+      {
+        name: "contact",
+        alias: "pc",
+        from: "contactid",
+        to: "primarycontactid",
+        linkType: "inner",
+        parent: "account",
+      },
+      {
+        name: "systemuser",
+        alias: "",
+        from: "systemuserid",
+        to: "owninguser",
+        linkType: "outer",
+        parent: "pc",
+      },
+    ]);
+    assert.deepEqual(definition.sorts, [
+      { entity: "account", attribute: "revenue", descending: true },
+    ]);
+    assert.deepEqual(definition.columns, [
+      { name: "name", width: 300 },
+      { name: "pc.fullname", width: "" },
+    ]);
+  });
+
+  it("returns an empty definition without fetchxml or layoutxml", async () => {
+    assert.deepEqual(await parseViewDefinition(null, undefined), {
+      conditions: [],
+      linkEntities: [],
+      sorts: [],
+      columns: [],
+    });
+  });
+});
+
+describe("parseBusinessRuleXaml", () => {
+  it("reads the branches, condition tree and actions of example.xaml", async () => {
+    const xaml = fs.readFileSync(
+      path.join(__dirname, "..", "example.xaml"),
+      "utf8"
+    );
+
+    assert.deepEqual(await parseBusinessRuleXaml(xaml), [
+      {
+        step: "ConditionBranchStep2",
+        branch: "If",
+        description: "Country is USA?",
+        condition: {
+          kind: "group",
+          logicalOperator: "OR",
+          conditions: ["USA", "usa"].map((value) => ({
+            kind: "condition",
+            field: "address1_country",
+            entity: "account",
+            operator: "Equals",
+            values: [value],
+          })),
+        },
+        actions: [
+          {
+            action: "Lock",
+            field: "address1_stateorprovince",
+            value: "",
+            label: "Lock State",
+          },
+        ],
+      },
+      {
+        step: "ConditionBranchStep3",
+        branch: "Else",
+        description: "",
+        condition: null,
+        actions: [
+          {
+            action: "Unlock",
+            field: "address1_stateorprovince",
+            value: "",
+            label: "Unlock State",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("rejects XAML that is not well-formed", async () => {
+    await assert.rejects(parseBusinessRuleXaml("<Activity>"));
+  });
+});
+
+describe("buildSecurityMatrixRecords", () => {
+  it("keeps a row for each role ID when roles share a name", () => {
+    const role = (roleid: string, name: string, Read?: number) => ({
+      roleid,
+      name,
+      ismanaged: false,
+      privileges: Read === undefined ? {} : { Read },
+    });
+
+    assert.deepEqual(
+      buildSecurityMatrixRecords("Read", [
+        {
+          entityName: "account",
+          roles: [role("r2", "Sales", 1), role("r1", "Sales", 8)],
+        },
+        { entityName: "contact", roles: [role("r1", "Sales", 0)] },
+      ]),
+      [
+        { Role: "Sales", "Role ID": "r1", account: "Org", contact: "None" },
+        { Role: "Sales", "Role ID": "r2", account: "User", contact: "" },
+      ]
+    );
+  });
+});
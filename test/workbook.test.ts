@@ -0,0 +1,645 @@
+// test/workbook.test.ts
+
+import { strict as assert } from "assert";
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, describe, it } from "node:test";
+
+import {
+  createBatchingClient,
+  createDataverseClient,
+  DataverseClient,
+} from "../src/dataverseClient";
+import {
+  COMBINED_WORKBOOK,
+  createExporter,
+  SECURITY_MATRIX_WORKBOOK,
+} from "../src/exporters";
+import { writeDocsSite } from "../src/docsSite";
+import {
+  createReplayAdapter,
+  FixtureFile,
+  readFixtures,
+} from "../src/fixtures";
+import {
+  CHOICES_WORKBOOK,
+  fetchGlobalOptionSets,
+  writeChoicesWorkbook,
+} from "../src/optionSets";
+import {
+  ProcessedEntity,
+  processEntityAll,
+  SHEET_NAMES,
+} from "../src/processEntity";
+
+const FIXTURES = path.join(__dirname, "fixtures", "account.json");
+
+function replayClient(fixtures: FixtureFile): DataverseClient {
+  return createDataverseClient({
+    baseUrl: "https://test.crm.dynamics.com/api/data/v9.2",
+    tokenProvider: { getToken: async () => "token" },
+    retryBaseDelayMs: 1,
+    adapter: createReplayAdapter(fixtures),
+  });
+}
+
+function sheetRecords(worksheet: ExcelJS.Worksheet): Record<string, any>[] {
+  const headers = (worksheet.getRow(1).values as any[]).slice(1);
+  const records: Record<string, any>[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber > 1) {
+      const values = row.values as any[];
+      records.push(
+        Object.fromEntries(headers.map((header, i) => [header, values[i + 1]]))
+      );
+    }
+  });
+  return records;
+}
+
+function summaryRows(worksheet: ExcelJS.Worksheet): string[][] {
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    row.eachCell((cell) => cells.push(cell.text));
+    rows.push(cells);
+  });
+  return rows;
+}
+
+describe("entity workbook export from replayed fixtures", () => {
+  let outputDir: string;
+
+  before(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "workbook-test-"));
+  });
+
+  after(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  for (const batching of [false, true]) {
+    describe(`every sheet ${batching ? "with" : "without"} $batch`, () => {
+      let processed: ProcessedEntity;
+      let workbook: ExcelJS.Workbook;
+
+      const records = (name: string) =>
+        sheetRecords(workbook.getWorksheet(name)!);
+
+      before(async () => {
+        const client = replayClient(readFixtures(FIXTURES));
+        const dir = path.join(outputDir, batching ? "batched" : "plain");
+
+        processed = await processEntityAll(
+          batching ? createBatchingClient(client) : client,
+          "account",
+          { exporter: createExporter(["xlsx"], dir), sheets: [...SHEET_NAMES] }
+        );
+
+        workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(path.join(dir, "account.xlsx"));
+      });
+
+      it("writes a sheet for every sheet name after the Summary", () => {
+        assert.deepEqual(
+          workbook.worksheets.map((sheet) => sheet.name),
+          [
+            "Summary",
+            "Entity",
+            "Columns",
+            "Keys",
+            "Relationships",
+            "Forms",
+            "Form Layout",
+            "Views",
+            "View Details",
+            "Business Rules",
+            "Business Rule Logic",
+            "Field Usage",
+            "Automation",
+            "Security",
+          ]
+        );
+        assert.equal(processed.metadata.attributes.length, 5);
+        assert.equal(processed.sheets.length, SHEET_NAMES.length);
+      });
+
+      it("shows the entity's properties and links every sheet on the Summary", () => {
+        const summary = summaryRows(workbook.getWorksheet("Summary")!);
+        assert.deepEqual(summary[0], ["Property", "Value"]);
+        assert.deepEqual(
+          summary.find((row) => row[0] === "Display Name"),
+          ["Display Name", "Account"]
+        );
+        assert.deepEqual(
+          summary.find((row) => row[0] === "Managed"),
+          ["Managed", "Yes"]
+        );
+        const columnsLink = workbook
+          .getWorksheet("Summary")!
+          .getRow(summary.findIndex((row) => row[0] === "Columns") + 1);
+        assert.equal(
+          (columnsLink.getCell(1).value as ExcelJS.CellHyperlinkValue)
+            .hyperlink,
+          "#'Columns'!A1"
+        );
+        assert.equal(columnsLink.getCell(2).value, 5);
+      });
+
+      it("adds the entity's settings on the Entity sheet", () => {
+        const entity = Object.fromEntries(
+          records("Entity").map((record) => [record.Property, record.Value])
+        );
+        assert.equal(entity["Plural Name"], "Accounts");
+        assert.equal(entity["Primary Name"], "name");
+        assert.equal(entity.Ownership, "UserOwned");
+        assert.equal(entity.Auditing, "Yes");
+        assert.equal(entity["Change Tracking"], "Yes");
+        assert.equal(entity["Duplicate Detection"], "Yes");
+        assert.equal(entity.Offline, "No");
+        assert.equal(entity["Quick Create"], "Yes");
+      });
+
+      it("lists the alternate keys with their index status", () => {
+        assert.deepEqual(
+          records("Keys").map((record) => [
+            record["Schema Name"],
+            record["Key Attributes"],
+            record["Index Status"],
+          ]),
+          [
+            ["new_ErpNumber", "accountnumber", "Active"],
+            ["new_NameRegion", "name, new_regions", "Failed"],
+          ]
+        );
+      });
+
+      it("merges both attribute pages with their cast details", () => {
+        // Data sheets have a frozen, filtered header row.
+        const columnsSheet = workbook.getWorksheet("Columns")!;
+        assert.equal(columnsSheet.views[0].state, "frozen");
+        assert.ok(columnsSheet.autoFilter);
+        assert.equal(columnsSheet.getRow(1).font?.bold, true);
+
+        const columns = records("Columns");
+        assert.deepEqual(
+          columns.map((record) => record["Logical Name"]),
+          [
+            "name",
+            "accountcategorycode",
+            "primarycontactid",
+            "creditlimit",
+            "new_regions",
+          ]
+        );
+        const byName = Object.fromEntries(
+          columns.map((record) => [record["Logical Name"], record])
+        );
+        assert.equal(byName.name["Max Length"], 160);
+        assert.equal(byName.primarycontactid.Targets, "contact");
+        assert.equal(byName.creditlimit.Precision, 2);
+        assert.equal(byName.new_regions["Data Type"], "MultiSelectPicklist");
+        assert.equal(byName.new_regions["Option Set"], "new_region");
+        assert.match(byName.accountcategorycode.Options, /Preferred Customer/);
+        // Booleans are rendered as Yes/No.
+        assert.equal(byName.name.Customizable, "Yes");
+      });
+
+      it("lists the relationships", () => {
+        assert.deepEqual(
+          records("Relationships").map((record) => record["Schema Name"]),
+          [
+            "contact_customer_accounts",
+            "account_primary_contact",
+            "accountleads_association",
+          ]
+        );
+      });
+
+      it("lists the forms and every tab, section and control of their layout", () => {
+        const forms = records("Forms");
+        assert.equal(forms.length, 1);
+        assert.equal(forms[0]["Form Type"], "Main");
+        assert.equal(forms[0]["Component State"], "Published");
+        assert.equal(forms[0]["Is Customizable"], "Yes");
+
+        assert.deepEqual(
+          records("Form Layout").map((record) => [
+            record.Form,
+            record.Level,
+            record.Order,
+            record.Section,
+            record["Bound Attribute"],
+            record.Label,
+            record.Visible,
+            record["Read-Only"],
+          ]),
+          [
+            ["Account", "Tab", "1", "", "", "Summary", "Yes", ""],
+            [
+              "Account",
+              "Section",
+              "1.1",
+              "ACCOUNT_INFORMATION",
+              "",
+              "Account Information",
+              "Yes",
+              "",
+            ],
+            [
+              "Account",
+              "Control",
+              "1.1.1",
+              "ACCOUNT_INFORMATION",
+              "name",
+              "Account Name",
+              "",
+              "No",
+            ],
+            [
+              "Account",
+              "Control",
+              "1.1.2",
+              "ACCOUNT_INFORMATION",
+              "primarycontactid",
+              "Primary Contact",
+              "",
+              "",
+            ],
+          ]
+        );
+      });
+
+      it("lists the views and their columns, filters, joins and sorts", () => {
+        // The views request was throttled once (429, Retry-After: 0) and retried.
+        assert.deepEqual(
+          records("Views").map((record) => record.Name),
+          ["Active Accounts"]
+        );
+
+        assert.deepEqual(
+          records("View Details").map((record) => [
+            record.View,
+            record["Detail Type"],
+            record.Order,
+            record["Entity / Alias"],
+            record.Attribute,
+            record.Operator,
+            record.Value,
+            record.Width,
+          ]),
+          [
+            ["Active Accounts", "Column", 1, "", "name", "", "", 300],
+            [
+              "Active Accounts",
+              "Column",
+              2,
+              "pc",
+              "emailaddress1",
+              "",
+              "",
+              150,
+            ],
+            [
+              "Active Accounts",
+              "Filter",
+              1,
+              "account",
+              "statecode",
+              "eq",
+              "0",
+              "",
+            ],
+            [
+              "Active Accounts",
+              "Link Entity",
+              1,
+              "contact (pc)",
+              "pc.contactid = account.primarycontactid",
+              "outer",
+              "",
+              "",
+            ],
+            [
+              "Active Accounts",
+              "Sort",
+              1,
+              "account",
+              "name",
+              "Ascending",
+              "",
+              "",
+            ],
+          ]
+        );
+      });
+
+      it("lists the business rules and their conditions and actions", () => {
+        const rules = records("Business Rules");
+        assert.equal(rules.length, 1);
+        assert.equal(rules[0].Category, "Business Rule");
+
+        assert.deepEqual(
+          records("Business Rule Logic").map((record) => [
+            record["Business Rule"],
+            record.Branch,
+            record["Row Type"],
+            record.Grouping,
+            record.Field,
+            record["Operator / Action"],
+            record.Value,
+          ]),
+          [
+            [
+              "Require Country for USA",
+              "If",
+              "Condition",
+              "OR",
+              "address1_country",
+              "Equals",
+              "USA",
+            ],
+            [
+              "Require Country for USA",
+              "If",
+              "Condition",
+              "OR",
+              "address1_country",
+              "Equals",
+              "usa",
+            ],
+            [
+              "Require Country for USA",
+              "If",
+              "Action",
+              "",
+              "address1_stateorprovince",
+              "Lock",
+              "",
+            ],
+            [
+              "Require Country for USA",
+              "Else",
+              "Action",
+              "",
+              "address1_stateorprovince",
+              "Unlock",
+              "",
+            ],
+          ]
+        );
+      });
+
+      it("shows where each column is used on forms and views", () => {
+        // The form binds name and primarycontactid; the view shows name and joins on primarycontactid.
+        const usageOf = Object.fromEntries(
+          records("Field Usage").map((record) => [
+            record["Logical Name"],
+            record,
+          ])
+        );
+        assert.equal(usageOf.name["Form: Main: Account"], "Control");
+        assert.equal(usageOf.name["View: Active Accounts"], "Column, Sort");
+        assert.equal(usageOf.primarycontactid["View: Active Accounts"], "Join");
+        assert.equal(usageOf.creditlimit["Used In"], 0);
+        assert.equal(usageOf.creditlimit["Cleanup Candidate"], "");
+        assert.equal(usageOf.new_regions["Cleanup Candidate"], "Yes");
+      });
+
+      it("lists processes by kind, then plug-in steps by message", () => {
+        // The flow triggered on contact is left out.
+        const automation = records("Automation");
+        assert.deepEqual(
+          automation.map((record) => [record.Kind, record.Name]),
+          [
+            ["Classic Workflow", "Notify owner on credit change"],
+            ["Cloud Flow", "Sync account to ERP"],
+            ["Custom Action", "Recalculate Credit"],
+            ["Plug-in Step", "Account created webhook"],
+            [
+              "Plug-in Step",
+              "Contoso.Plugins.AccountCreditCheck: Update of account",
+            ],
+          ]
+        );
+        const [workflow, flow, action, webhook, plugin] = automation;
+        assert.equal(workflow.Trigger, "Create; Update");
+        assert.equal(workflow["Filtering Attributes"], "creditlimit,ownerid");
+        assert.equal(flow.Trigger, "Dataverse: Update (Organization)");
+        assert.equal(flow.Mode, "Automated");
+        assert.equal(action.Message, "new_RecalculateCredit");
+        assert.equal(webhook.Handler, "ERP Webhook");
+        assert.equal(webhook.Mode, "Asynchronous");
+        assert.equal(plugin.Stage, "Pre-operation");
+        assert.equal(plugin.Assembly, "Contoso.Plugins");
+      });
+
+      it("lists every root role with the deepest access it has", () => {
+        // None at all reads as "None".
+        assert.deepEqual(
+          records("Security").map((record) => [
+            record.Role,
+            record.Create,
+            record.Read,
+            record.Delete,
+            record["Append To"],
+          ]),
+          [
+            ["Auditor", "None", "None", "None", "None"],
+            ["Salesperson", "User", "Parent-Child", "User", "BU"],
+            ["Support Agent", "None", "Org", "None", "Org"],
+          ]
+        );
+      });
+    });
+  }
+
+  it("renders docs page cells the same as the workbook cells", async () => {
+    const dir = path.join(outputDir, "docs");
+    const processed = await processEntityAll(
+      replayClient(readFixtures(FIXTURES)),
+      "account",
+      { exporter: createExporter(["xlsx"], dir), sheets: ["columns"] }
+    );
+    writeDocsSite([processed], dir, "markdown");
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(dir, "account.xlsx"));
+    const worksheet = workbook.getWorksheet("Columns")!;
+    const workbookRows = worksheet
+      .getRows(1, worksheet.rowCount)!
+      .map((row) =>
+        Array.from(
+          { length: worksheet.columnCount },
+          (_, i) => row.getCell(i + 1).text
+        )
+      );
+
+    // The Columns table of the page, up to the blank line that ends it.
+    const page = fs.readFileSync(path.join(dir, "account.md"), "utf8");
+    const table = page.trimEnd().split("## Columns\n\n")[1].split("\n\n")[0];
+    const [header, , ...rows] = table
+      .split("\n")
+      .map((line) => line.slice(2, -2).split(" | "));
+
+    assert.deepEqual(header, workbookRows[0]);
+    assert.equal(rows.length, workbookRows.length - 1);
+    const customizable = header.indexOf("Customizable");
+    assert.ok(customizable >= 0);
+    rows.forEach((row, i) => {
+      assert.equal(row[customizable], workbookRows[i + 1][customizable]);
+      assert.match(row[customizable], /^(Yes|No)$/);
+    });
+  });
+
+  it("writes the combined workbook, CSV and JSON outputs", async () => {
+    const dir = path.join(outputDir, "formats");
+    const exporter = createExporter(["combined", "csv", "json"], dir);
+    await processEntityAll(replayClient(readFixtures(FIXTURES)), "account", {
+      exporter,
+      sheets: ["columns", "views"],
+    });
+    await exporter.finish();
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(dir, COMBINED_WORKBOOK));
+    assert.deepEqual(
+      workbook.worksheets.map((sheet) => sheet.name),
+      ["Summary", "Columns", "Views"]
+    );
+    assert.deepEqual(
+      summaryRows(workbook.getWorksheet("Summary")!).find(
+        (row) => row[0] === "account"
+      ),
+      ["account", "Account", "5", "1"]
+    );
+    const columns = sheetRecords(workbook.getWorksheet("Columns")!);
+    assert.equal(columns.length, 5);
+    assert.equal(columns[0].Entity, "account");
+    assert.equal(columns[0]["Logical Name"], "name");
+
+    const csv = fs.readFileSync(path.join(dir, "account", "views.csv"), "utf8");
+    const [header, ...rows] = csv.trimEnd().split("\r\n");
+    assert.ok(header.split(",").includes("Name"));
+    assert.equal(rows.length, 1);
+    assert.match(rows[0], /Active Accounts/);
+
+    const json = JSON.parse(
+      fs.readFileSync(path.join(dir, "account.json"), "utf8")
+    );
+    assert.equal(json.entityName, "account");
+    assert.deepEqual(Object.keys(json.sheets), ["columns", "views"]);
+    assert.equal(json.sheets.columns[4]["Logical Name"], "new_regions");
+  });
+
+  it("writes the security matrix with a sheet per privilege", async () => {
+    const dir = path.join(outputDir, "security");
+    const exporter = createExporter(["security"], dir);
+    await processEntityAll(replayClient(readFixtures(FIXTURES)), "account", {
+      exporter,
+      sheets: ["columns"],
+      extraParts: ["securityRoles"],
+    });
+    await exporter.finish();
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(dir, SECURITY_MATRIX_WORKBOOK));
+    assert.deepEqual(
+      workbook.worksheets.map((sheet) => sheet.name),
+      [
+        "Create",
+        "Read",
+        "Write",
+        "Delete",
+        "Append",
+        "Append To",
+        "Assign",
+        "Share",
+      ]
+    );
+    assert.deepEqual(sheetRecords(workbook.getWorksheet("Delete")!), [
+      {
+        Role: "Auditor",
+        "Role ID": "00000000-0000-0000-0000-000000000203",
+        account: "None",
+      },
+      {
+        Role: "Salesperson",
+        "Role ID": "00000000-0000-0000-0000-000000000201",
+        account: "User",
+      },
+      {
+        Role: "Support Agent",
+        "Role ID": "00000000-0000-0000-0000-000000000202",
+        account: "None",
+      },
+    ]);
+  });
+
+  it("writes the choice catalogue with usage and local choices", async () => {
+    const dir = path.join(outputDir, "choices");
+    const client = replayClient(readFixtures(FIXTURES));
+    const processed = await processEntityAll(client, "account", {
+      exporter: createExporter([], dir),
+      sheets: ["columns"],
+    });
+    await writeChoicesWorkbook(
+      await fetchGlobalOptionSets(client),
+      [processed.metadata],
+      dir
+    );
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(dir, CHOICES_WORKBOOK));
+    assert.deepEqual(
+      workbook.worksheets.map((sheet) => sheet.name),
+      ["Summary", "Global Choices", "Global Choice Values", "Local Choices"]
+    );
+
+    const choices = sheetRecords(workbook.getWorksheet("Global Choices")!);
+    assert.deepEqual(
+      choices.map((record) => [record.Name, record.Values, record["Used By"]]),
+      [
+        ["bam_yesno", 2, ""],
+        ["new_region", 2, "account.new_regions"],
+      ]
+    );
+
+    const values = sheetRecords(workbook.getWorksheet("Global Choice Values")!);
+    assert.deepEqual(values[0], {
+      Choice: "bam_yesno",
+      Value: 0,
+      Label: "No",
+      Color: "",
+      Description: "",
+      "External Value": "",
+    });
+    assert.equal(values[2].Color, "#0078D4");
+    assert.equal(values[2].Description, "Northern territories");
+
+    // Local option sets name the attribute they belong to; global ones are left out.
+    const local = sheetRecords(workbook.getWorksheet("Local Choices")!);
+    assert.ok(local.length > 0);
+    assert.ok(local.every((record) => record.Attribute !== "new_regions"));
+    assert.deepEqual(
+      local
+        .filter((record) => record.Attribute === "accountcategorycode")
+        .map((record) => [record.Entity, record["Option Set"], record.Label]),
+      [
+        ["account", "account_accountcategorycode", "Preferred Customer"],
+        ["account", "account_accountcategorycode", "Standard"],
+      ]
+    );
+  });
+
+  it("answers unrecorded requests with 404", async () => {
+    const client = replayClient({ version: 1, recordedAt: "", responses: [] });
+
+    await assert.rejects(client.get("EntityDefinitions"), (error: any) => {
+      assert.equal(error.response?.status, 404);
+      return true;
+    });
+  });
+});